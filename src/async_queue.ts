@@ -0,0 +1,72 @@
+import { Deferred } from '@leawind/inventory/deferred';
+
+/**
+ * Queue that turns pushed items into an async iterable
+ *
+ * Iteration waits for new items, and ends after the queue is closed and all items are consumed.
+ *
+ * @template T - Type of items
+ */
+export class AsyncQueue<T> implements AsyncIterableIterator<T, void, undefined> {
+	private readonly items: T[] = [];
+	private closed: boolean = false;
+
+	/**
+	 * Resolved when an item is pushed or the queue is closed
+	 */
+	private changed: Deferred<void> | null = null;
+
+	/**
+	 * Adds an item. Does nothing if the queue is closed.
+	 */
+	public push(item: T): void {
+		if (this.closed) {
+			return;
+		}
+		this.items.push(item);
+		this.changed?.resolve();
+	}
+
+	/**
+	 * Stops accepting items. Items already pushed can still be consumed.
+	 */
+	public close(): void {
+		this.closed = true;
+		this.changed?.resolve();
+	}
+
+	public isClosed(): boolean {
+		return this.closed;
+	}
+
+	/**
+	 * Takes the next item, waiting for it if needed
+	 */
+	public async next(): Promise<IteratorResult<T, void>> {
+		while (this.items.length === 0 && !this.closed) {
+			this.changed = new Deferred();
+			await this.changed;
+			this.changed = null;
+		}
+		if (this.items.length > 0) {
+			return { done: false, value: this.items.shift()! };
+		}
+		return { done: true, value: undefined };
+	}
+
+	/**
+	 * Closes the queue when the consumer stops early
+	 */
+	public return(): Promise<IteratorResult<T, void>> {
+		this.close();
+		this.items.length = 0;
+		return Promise.resolve({ done: true, value: undefined });
+	}
+
+	/**
+	 * Not an async generator, because it would await items that are thenable, like tasks.
+	 */
+	public [Symbol.asyncIterator](): AsyncIterableIterator<T, void, undefined> {
+		return this;
+	}
+}
@@ -0,0 +1,27 @@
+/**
+ * Source of time and timers, so that scheduling can be tested with a virtual clock
+ */
+export interface TuzkClock {
+	/**
+	 * Current time in milliseconds since epoch, like {@link Date.now}
+	 */
+	now(): number;
+	/**
+	 * Calls the callback after the delay, like {@link setTimeout}
+	 * @returns A handle to pass to {@link TuzkClock.clearTimeout}
+	 */
+	setTimeout(callback: () => void, delay: number): unknown;
+	/**
+	 * Cancels a timer created by {@link TuzkClock.setTimeout}. Does nothing if the handle is `undefined`.
+	 */
+	clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock using the system time and timers
+ */
+export const systemClock: TuzkClock = {
+	now: () => Date.now(),
+	setTimeout: (callback, delay) => setTimeout(callback, delay),
+	clearTimeout: (handle) => clearTimeout(handle as number | undefined),
+};
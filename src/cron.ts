@@ -0,0 +1,119 @@
+import { TuzkError } from '@/errors.ts';
+
+const MACROS: Record<string, string> = {
+	'@yearly': '0 0 1 1 *',
+	'@annually': '0 0 1 1 *',
+	'@monthly': '0 0 1 * *',
+	'@weekly': '0 0 * * 0',
+	'@daily': '0 0 * * *',
+	'@midnight': '0 0 * * *',
+	'@hourly': '0 * * * *',
+};
+
+/**
+ * Parses a field of a cron expression into the set of values it matches
+ */
+function parseField(field: string, min: number, max: number): Set<number> {
+	const values = new Set<number>();
+	for (const part of field.split(',')) {
+		const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+		if (match === null) {
+			throw new TuzkError(`Invalid cron field: ${field}`);
+		}
+		const [, range, from, to, step] = match;
+		let start = min;
+		let end = max;
+		if (range !== '*') {
+			start = Number(from);
+			end = to !== undefined ? Number(to) : step !== undefined ? max : start;
+		}
+		const increment = step === undefined ? 1 : Number(step);
+		if (start < min || end > max || start > end || increment < 1) {
+			throw new TuzkError(`Invalid cron field: ${field}`);
+		}
+		for (let value = start; value <= end; value += increment) {
+			values.add(value);
+		}
+	}
+	return values;
+}
+
+/**
+ * Cron expression with 5 fields: minute, hour, day of month, month, day of week
+ *
+ * Each field supports `*`, numbers, ranges `1-5`, lists `1,3,5` and steps `* /15` or `0-30/10`.
+ * Day of week is 0-7, both 0 and 7 are Sunday. Macros like `@hourly` and `@daily` are supported too.
+ *
+ * Like standard cron, if both day of month and day of week are restricted, a day matching either one matches.
+ * Times are in local time zone.
+ */
+export class CronExpression {
+	private readonly minutes: Set<number>;
+	private readonly hours: Set<number>;
+	private readonly daysOfMonth: Set<number>;
+	private readonly months: Set<number>;
+	private readonly daysOfWeek: Set<number>;
+	private readonly dayOfMonthRestricted: boolean;
+	private readonly dayOfWeekRestricted: boolean;
+
+	/**
+	 * @param expression - The cron expression
+	 * @throws {TuzkError} If the expression is invalid
+	 */
+	public constructor(public readonly expression: string) {
+		const fields = (MACROS[expression.trim()] ?? expression).trim().split(/\s+/);
+		if (fields.length !== 5) {
+			throw new TuzkError(`Cron expression must have 5 fields: ${expression}`);
+		}
+		this.minutes = parseField(fields[0], 0, 59);
+		this.hours = parseField(fields[1], 0, 23);
+		this.daysOfMonth = parseField(fields[2], 1, 31);
+		this.months = parseField(fields[3], 1, 12);
+		this.daysOfWeek = parseField(fields[4], 0, 7);
+		if (this.daysOfWeek.has(7)) {
+			this.daysOfWeek.add(0);
+		}
+		this.dayOfMonthRestricted = fields[2] !== '*';
+		this.dayOfWeekRestricted = fields[4] !== '*';
+	}
+
+	private matchesDay(date: Date): boolean {
+		const dayOfMonth = this.daysOfMonth.has(date.getDate());
+		const dayOfWeek = this.daysOfWeek.has(date.getDay());
+		if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+			return dayOfMonth || dayOfWeek;
+		}
+		return dayOfMonth && dayOfWeek;
+	}
+
+	/**
+	 * Finds the first matching minute after the given time
+	 *
+	 * @param after - Time in milliseconds since epoch
+	 * @returns Time in milliseconds since epoch, strictly after `after`
+	 * @throws {TuzkError} If no time matches, like `0 0 30 2 *`
+	 */
+	public next(after: number): number {
+		const date = new Date(after);
+		date.setSeconds(0, 0);
+		date.setMinutes(date.getMinutes() + 1);
+
+		// Enough to cover several hundred years
+		for (let i = 0; i < 100_000; i++) {
+			if (!this.months.has(date.getMonth() + 1)) {
+				date.setMonth(date.getMonth() + 1, 1);
+				date.setHours(0, 0, 0, 0);
+			} else if (!this.matchesDay(date)) {
+				date.setDate(date.getDate() + 1);
+				date.setHours(0, 0, 0, 0);
+			} else if (!this.hours.has(date.getHours())) {
+				date.setHours(date.getHours() + 1, 0, 0, 0);
+			} else if (!this.minutes.has(date.getMinutes())) {
+				date.setMinutes(date.getMinutes() + 1, 0, 0);
+			} else {
+				return date.getTime();
+			}
+		}
+		throw new TuzkError(`No time matches cron expression: ${this.expression}`);
+	}
+}
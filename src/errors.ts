@@ -1,3 +1,4 @@
+import type { Tuzk } from '@/tuzk.ts';
 import type { TuzkState } from '@/types.ts';
 
 /**
@@ -22,6 +23,81 @@ export class InvalidStateError extends TuzkError {
  */
 export class CancelledError extends TuzkError {}
 
+/**
+ * Thrown when:
+ * - A dependency of the tuzk failed or was cancelled, so the tuzk is cancelled by its manager
+ */
+export class DependencyFailedError extends CancelledError {
+	constructor(
+		/** The upstream task that failed */
+		public dependency: Tuzk<unknown, string>,
+	) {
+		super(`Dependency ${dependency} is ${dependency.getState()}`);
+		this.name = 'DependencyFailedError';
+	}
+}
+
+/**
+ * Thrown when:
+ * - A dependency of the tuzk failed with the `skip` policy, so the tuzk is skipped by its manager
+ * - A dependency of the tuzk was skipped, so the tuzk is skipped too
+ *
+ * A skipped tuzk ends up cancelled, but it is not a failure. Its dependents are skipped instead of cancelled.
+ */
+export class SkippedError extends CancelledError {
+	constructor(
+		/** The upstream task that failed or was skipped */
+		public dependency: Tuzk<unknown, string>,
+	) {
+		super(`Skipped because dependency ${dependency} is ${dependency.getState()}`);
+		this.name = 'SkippedError';
+	}
+}
+
+/**
+ * Thrown when:
+ * - The tuzk runs out of its timeout
+ * - The tuzk passes its deadline
+ */
+export class TimeoutError extends TuzkError {}
+
+/**
+ * Thrown when multiple errors need to be reported together.
+ *
+ * Thrown when:
+ * - No child task of {@link Tuzk.any} succeeded
+ * - Any child task of {@link Tuzk.all} failed, with failure mode `wait-all`
+ */
+export class AggregateTuzkError extends TuzkError {
+	constructor(
+		public errors: unknown[],
+		message?: string,
+	) {
+		super(message);
+		this.name = 'AggregateTuzkError';
+	}
+}
+
+/**
+ * Thrown when:
+ * - A `TuzkGraph` has duplicate ids, missing dependencies or cycles
+ */
+export class InvalidGraphError extends TuzkError {
+	constructor(
+		message: string,
+		/**
+		 * The offending path of ids.
+		 *
+		 * - For a cycle, it starts and ends with the same id.
+		 * - For a missing dependency, it ends with the missing id.
+		 */
+		public path: string[],
+	) {
+		super(message);
+		this.name = 'InvalidGraphError';
+	}
+}
+
 /**
  * If this error is thrown, it means there's probably a bug in tuzk
  */
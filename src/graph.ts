@@ -0,0 +1,263 @@
+import { Delegate } from '@leawind/delegate';
+import { Deferred } from '@leawind/inventory/deferred';
+import { AggregateTuzkError, InvalidGraphError } from '@/errors.ts';
+import type { SubmitOptions, TuzkManager } from '@/manager.ts';
+import { Tuzk } from '@/tuzk.ts';
+import type { ActiveTuzk } from '@/types.ts';
+
+/**
+ * A node of {@link TuzkGraph}
+ * @template Inputs - Results of upstream nodes, keyed by id
+ * @template R - Result type of the node
+ */
+export type TuzkGraphNode<Inputs, R> = {
+	/**
+	 * Ids of nodes that must succeed before this node runs
+	 */
+	dependsOn?: (keyof Inputs & string)[];
+	/**
+	 * Execution logic of the node
+	 * @param inputs - Results of upstream nodes listed in {@link TuzkGraphNode.dependsOn}
+	 * @param task - The active task of this node
+	 */
+	run: (inputs: Inputs, task: ActiveTuzk<Tuzk<R>>) => PromiseLike<R> | R;
+	/**
+	 * Options used when submitting the task of this node
+	 */
+	submitOptions?: Omit<SubmitOptions, 'dependencies'>;
+};
+
+type AnyNode = TuzkGraphNode<Record<string, unknown>, unknown>;
+
+/**
+ * Declarative builder of a task graph
+ *
+ * Tasks are registered under string ids, and can depend on other tasks by id.
+ * Results of upstream tasks are passed to downstream runners.
+ *
+ * ```ts
+ * const graph = new TuzkGraph()
+ *   .add('download', { run: () => download() })
+ *   .add('verify', { dependsOn: ['download'], run: ({ download }) => verify(download) })
+ *   .add('extract', { dependsOn: ['download', 'verify'], run: ({ download }) => extract(download) });
+ *
+ * const handle = graph.submit(new TuzkManager());
+ * const results = await handle.wait();
+ * ```
+ *
+ * @template Results - Results of registered nodes, keyed by id
+ */
+export class TuzkGraph<Results extends Record<string, unknown> = Record<never, never>> {
+	private readonly nodes: Map<string, AnyNode> = new Map();
+
+	/**
+	 * Registers a node
+	 *
+	 * Dependencies should be registered before their dependents, so that types of their results are known.
+	 * Graphs built from untyped data are still checked by {@link validate}.
+	 *
+	 * @param id - Unique id of the node
+	 * @param node - The node
+	 * @returns This graph, with the result type of the new node
+	 * @throws {InvalidGraphError} If the id is already registered
+	 */
+	public add<Id extends string, R, D extends keyof Results & string = never>(
+		id: Id,
+		node: TuzkGraphNode<Pick<Results, D>, R> & { dependsOn?: D[] },
+	): TuzkGraph<Results & { [K in Id]: R }> {
+		if (this.nodes.has(id)) {
+			throw new InvalidGraphError(`Duplicate id: ${id}`, [id]);
+		}
+		this.nodes.set(id, node as unknown as AnyNode);
+		return this as unknown as TuzkGraph<Results & { [K in Id]: R }>;
+	}
+
+	/**
+	 * Ids of registered nodes, in registration order
+	 */
+	public ids(): (keyof Results & string)[] {
+		return [...this.nodes.keys()];
+	}
+
+	/**
+	 * Validates the graph
+	 *
+	 * @returns Ids of nodes in topological order, dependencies first
+	 * @throws {InvalidGraphError} If a dependency is missing, or there is a cycle. Its `path` shows the offending path.
+	 */
+	public validate(): (keyof Results & string)[] {
+		const order: string[] = [];
+		const visiting: string[] = [];
+		const visited = new Set<string>();
+
+		const visit = (id: string) => {
+			if (visited.has(id)) {
+				return;
+			}
+			const node = this.nodes.get(id);
+			if (node === undefined) {
+				const path = [...visiting, id];
+				throw new InvalidGraphError(`Missing node: ${path.join(' -> ')}`, path);
+			}
+			const index = visiting.indexOf(id);
+			if (index !== -1) {
+				const path = [...visiting.slice(index), id];
+				throw new InvalidGraphError(`Cycle detected: ${path.join(' -> ')}`, path);
+			}
+
+			visiting.push(id);
+			for (const dependency of node.dependsOn ?? []) {
+				visit(dependency);
+			}
+			visiting.pop();
+
+			visited.add(id);
+			order.push(id);
+		};
+
+		for (const id of this.nodes.keys()) {
+			visit(id);
+		}
+		return order;
+	}
+
+	/**
+	 * Validates the graph, then submits all its nodes to the manager
+	 *
+	 * @param manager - The manager to submit to
+	 * @returns A handle of the submitted graph
+	 * @throws {InvalidGraphError} If the graph is invalid. Nothing is submitted in this case.
+	 */
+	public submit(manager: TuzkManager): TuzkGraphHandle<Results> {
+		const order = this.validate();
+		const tasks = new Map<string, Tuzk<unknown, string>>();
+
+		for (const id of order) {
+			const node = this.nodes.get(id)!;
+			const dependsOn = node.dependsOn ?? [];
+
+			const tuzk = new Tuzk<unknown>((task) => {
+				// Without a prototype, so that ids like `__proto__` are plain keys
+				const inputs: Record<string, unknown> = Object.create(null);
+				for (const dependency of dependsOn) {
+					inputs[dependency] = tasks.get(dependency)!.getResult();
+				}
+				return node.run(inputs, task);
+			});
+			tasks.set(id, tuzk);
+
+			manager.submit(tuzk, {
+				...node.submitOptions,
+				dependencies: dependsOn.map((dependency) => tasks.get(dependency)!),
+			});
+		}
+
+		return new TuzkGraphHandle<Results>(tasks);
+	}
+}
+
+/**
+ * Handle of a graph submitted by {@link TuzkGraph.submit}
+ * @template Results - Results of nodes, keyed by id
+ */
+export class TuzkGraphHandle<Results extends Record<string, unknown>> {
+	/**
+	 * Event triggered when the aggregate progress changes
+	 */
+	public readonly onProgressUpdated: Delegate<number> = new Delegate();
+
+	/**
+	 * Tasks that are finished
+	 */
+	private readonly settled: Set<Tuzk<unknown, string>> = new Set();
+
+	private readonly allSettled: Deferred<void> = new Deferred();
+
+	public constructor(
+		/** Tasks of nodes, keyed by id */
+		public readonly tasks: ReadonlyMap<keyof Results & string, Tuzk<unknown, string>>,
+	) {
+		const nodeTasks = new Set(tasks.values());
+
+		for (const task of nodeTasks) {
+			task.onProgressUpdated.addListener(() => this.onProgressUpdated.broadcast(this.getProgress()));
+
+			if (task.isFinished()) {
+				this.settle(task);
+				continue;
+			}
+			task.onStateUpdated.addListener((e) => {
+				if (task.isFinished()) {
+					e.removeSelf();
+					this.settle(task);
+				}
+			});
+		}
+
+		if (this.settled.size === nodeTasks.size) {
+			this.allSettled.resolve();
+		}
+	}
+
+	private settle(task: Tuzk<unknown, string>): void {
+		this.settled.add(task);
+		if (this.settled.size === this.tasks.size) {
+			this.allSettled.resolve();
+		}
+	}
+
+	/**
+	 * Gets the task of a node
+	 */
+	public getTask<Id extends keyof Results & string>(id: Id): Tuzk<Results[Id], string> {
+		return this.tasks.get(id) as Tuzk<Results[Id], string>;
+	}
+
+	/**
+	 * Average progress of all nodes. Range: [0.0, 1.0]
+	 */
+	public getProgress(): number {
+		if (this.tasks.size === 0) {
+			return 1;
+		}
+		let sum = 0;
+		for (const task of this.tasks.values()) {
+			sum += task.getProgress();
+		}
+		return Math.min(1, sum / this.tasks.size);
+	}
+
+	/**
+	 * Results of succeeded nodes, keyed by id
+	 */
+	public getResults(): Partial<Results> {
+		const results: Partial<Record<string, unknown>> = Object.create(null);
+		for (const [id, task] of this.tasks) {
+			if (task.stateIs('success')) {
+				results[id] = task.getResult();
+			}
+		}
+		return results as Partial<Results>;
+	}
+
+	/**
+	 * Waits for all nodes to finish
+	 *
+	 * @returns Results of all nodes, keyed by id
+	 * @throws {AggregateTuzkError} If any node failed or was cancelled
+	 */
+	public async wait(): Promise<Results> {
+		await this.allSettled;
+
+		const errors: unknown[] = [];
+		for (const task of this.tasks.values()) {
+			if (!task.stateIs('success')) {
+				errors.push(task.error);
+			}
+		}
+		if (errors.length > 0) {
+			throw new AggregateTuzkError(errors, `${errors.length} of ${this.tasks.size} tasks did not succeed`);
+		}
+		return this.getResults() as Results;
+	}
+}
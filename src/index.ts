@@ -1,4 +1,47 @@
-export { CompositeTuzk, Tuzk } from '@/tuzk.ts';
-export { TuzkManager } from '@/manager.ts';
-export { type ActiveTuzk, type TuzkLike, type TuzkRunner, TuzkState } from '@/types.ts';
+export {
+	type CompositeFailureMode,
+	CompositeTuzk,
+	type CompositeTuzkOptions,
+	Tuzk,
+	type TuzkOptions,
+	type TuzkPipeStage,
+} from '@/tuzk.ts';
+export {
+	type DependencyFailurePolicy,
+	type PersistentSubmitOptions,
+	type RetentionPolicy,
+	type SubmitOptions,
+	type TuzkFactory,
+	type TuzkFilter,
+	TuzkManager,
+	type TuzkManagerOptions,
+	type TuzkSummary,
+} from '@/manager.ts';
+export { TuzkGraph, TuzkGraphHandle, type TuzkGraphNode } from '@/graph.ts';
+export {
+	defineWorkerRunner,
+	WorkerTuzk,
+	type WorkerTuzkContext,
+	type WorkerTuzkOptions,
+	type WorkerTuzkRunner,
+} from '@/worker.ts';
+export type { RetryPolicy } from '@/retry.ts';
+export type { RateLimit } from '@/rate_limit.ts';
+export { systemClock, type TuzkClock } from '@/clock.ts';
+export { TimeSliceScheduler, yieldToEventLoop } from '@/time_slice.ts';
+export { CronExpression } from '@/cron.ts';
+export { type OverlapPolicy, type TuzkSchedule, TuzkScheduleHandle, type TuzkScheduleOptions } from '@/schedule.ts';
+export { MemoryTuzkStorage, type TuzkRecord, type TuzkStorage } from '@/storage.ts';
+export {
+	type ActiveTuzk,
+	type TuzkEvent,
+	type TuzkEventType,
+	type TuzkLike,
+	type TuzkProgressNode,
+	type TuzkProgressScope,
+	type TuzkRunner,
+	type TuzkRunRecord,
+	type TuzkSettledResult,
+	TuzkState,
+} from '@/types.ts';
 export * as errors from '@/errors.ts';
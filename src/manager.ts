@@ -1,18 +1,242 @@
 import { Delegate } from '@leawind/delegate';
+import { AsyncQueue } from '@/async_queue.ts';
+import { systemClock, type TuzkClock } from '@/clock.ts';
+import { DependencyFailedError, SkippedError, TuzkError } from '@/errors.ts';
 import { Tuzk } from '@/tuzk.ts';
-import { type TuzkLike, TuzkState } from '@/types.ts';
+import type { RetryPolicy } from '@/retry.ts';
+import { type RateLimit, TokenBucket } from '@/rate_limit.ts';
+import { TimeSliceScheduler } from '@/time_slice.ts';
+import { type TuzkSchedule, TuzkScheduleHandle, type TuzkScheduleOptions } from '@/schedule.ts';
+import type { TuzkRecord, TuzkStorage } from '@/storage.ts';
+import { type TuzkEvent, type TuzkLike, type TuzkRunner, TuzkState } from '@/types.ts';
 
 const $manager = Symbol('manager');
 const $dependencies = Symbol('dependencies');
-const $areDependenciesMet = Symbol('areDependenciesMet');
+const $priority = Symbol('priority');
+const $sequence = Symbol('sequence');
+const $dependencyFailurePolicy = Symbol('dependencyFailurePolicy');
+const $group = Symbol('group');
+const $persistentId = Symbol('persistentId');
+const $removed = Symbol('removed');
 
 type TuzkWrapper = {
 	[$manager]?: TuzkManager;
 	[$dependencies]: Set<Tuzk<unknown, string>>;
-	[$areDependenciesMet](): boolean;
+	/**
+	 * Overrides {@link TuzkManager.dependencyFailurePolicy} for this task
+	 */
+	[$dependencyFailurePolicy]?: DependencyFailurePolicy;
+	/**
+	 * Higher priority tasks are activated first
+	 */
+	[$priority]: number;
+	/**
+	 * Submission order, used to keep FIFO order among tasks with equal priority
+	 */
+	[$sequence]: number;
+	/**
+	 * Name of the concurrency group this task belongs to
+	 */
+	[$group]?: string;
+	/**
+	 * Id of the stored record, if this task is persistent
+	 */
+	[$persistentId]?: string;
+	/**
+	 * Whether the task was removed by {@link TuzkManager.remove}, and is not submitted again yet
+	 */
+	[$removed]?: boolean;
 };
 type WrappedTuzk<R = unknown> = Tuzk<R, string> & TuzkWrapper;
 
+/**
+ * What to do with a pending task when one of its dependencies failed or was cancelled
+ *
+ * - `cancel`: Cancel the task with a {@link DependencyFailedError}. Its own dependents are handled in turn.
+ * - `skip`: Skip the task. It's cancelled with a {@link SkippedError}, which is not a failure:
+ *   its dependents are skipped too, whatever their policy, unless it's `run`.
+ * - `run`: Run the task anyway, once all its dependencies are finished.
+ */
+export type DependencyFailurePolicy = 'cancel' | 'skip' | 'run';
+
+/**
+ * Options for constructing a {@link TuzkManager}
+ */
+export type TuzkManagerOptions = {
+	/**
+	 * Default retry policy of submitted tasks
+	 * @see TuzkManager.retryPolicy
+	 */
+	retryPolicy?: RetryPolicy;
+	/**
+	 * @see TuzkManager.dependencyFailurePolicy
+	 */
+	dependencyFailurePolicy?: DependencyFailurePolicy;
+	/**
+	 * Default timeout of submitted tasks
+	 * @see TuzkManager.timeout
+	 */
+	timeout?: number;
+	/**
+	 * Default time slice of submitted tasks
+	 * @see TuzkManager.timeSlice
+	 */
+	timeSlice?: number;
+	/**
+	 * Whether submitted tasks take turns in round-robin order when they yield at the end of their time slices
+	 * @see TuzkManager.sliceScheduler
+	 */
+	fairTimeSlicing?: boolean;
+	/**
+	 * @see TuzkManager.pauseExcessTasks
+	 */
+	pauseExcessTasks?: boolean;
+	/**
+	 * Concurrency limits of groups, keyed by group name
+	 * @see TuzkManager.setGroupConcurrency
+	 */
+	groupConcurrency?: Record<string, number>;
+	/**
+	 * @see TuzkManager.setRateLimit
+	 */
+	rateLimit?: RateLimit;
+	/**
+	 * Rate limits of groups, keyed by group name
+	 * @see TuzkManager.setGroupRateLimit
+	 */
+	groupRateLimits?: Record<string, RateLimit>;
+	/**
+	 * Storage of persistent tasks
+	 * @see TuzkManager.submitPersistent
+	 */
+	storage?: TuzkStorage;
+	/**
+	 * Task types used by persistent tasks, keyed by name
+	 * @see TuzkManager.registerType
+	 */
+	types?: Record<string, TuzkFactory<never>>;
+	/**
+	 * @see TuzkManager.retention
+	 */
+	retention?: RetentionPolicy;
+	/**
+	 * @see TuzkManager.clock
+	 */
+	clock?: TuzkClock;
+};
+
+/**
+ * Options for {@link TuzkManager.submit}
+ */
+export type SubmitOptions = {
+	/**
+	 * Tasks that must succeed before this task can be activated
+	 */
+	dependencies?: Iterable<Tuzk<unknown, string>>;
+	/**
+	 * Priority of the task. Ready tasks with higher priority are activated first.
+	 *
+	 * Tasks with equal priority are activated in submission order.
+	 *
+	 * @default 0
+	 */
+	priority?: number;
+	/**
+	 * What to do with this task when one of its dependencies failed
+	 * @default {@link TuzkManager.dependencyFailurePolicy}
+	 */
+	dependencyFailurePolicy?: DependencyFailurePolicy;
+	/**
+	 * Name of the concurrency group this task belongs to
+	 * @see TuzkManager.setGroupConcurrency
+	 */
+	group?: string;
+};
+
+/**
+ * Decides how long finished tasks are kept by a manager
+ *
+ * Evicted tasks no longer belong to the manager, so they can't be found by {@link TuzkManager.getTasks}.
+ */
+export type RetentionPolicy = {
+	/**
+	 * Maximum number of finished tasks to keep. The earliest finished ones are evicted first.
+	 * @default Infinity
+	 */
+	maxFinished?: number;
+	/**
+	 * Milliseconds to keep a task after it finishes. Expired tasks are evicted even if the manager is idle.
+	 * @default Infinity
+	 */
+	ttl?: number;
+	/**
+	 * Which finished tasks to keep
+	 *
+	 * - `all`: Keep all finished tasks
+	 * - `failures`: Keep only failed tasks, evict succeeded and cancelled tasks as soon as they finish
+	 *
+	 * @default 'all'
+	 */
+	keep?: 'all' | 'failures';
+};
+
+/**
+ * What is left of a task after it is evicted
+ * @see TuzkManager.onTaskEvicted
+ */
+export type TuzkSummary = {
+	id: string;
+	name?: string;
+	tags: string[];
+	metadata: Record<string, unknown>;
+	state: TuzkState;
+	/** Error of a failed or cancelled task */
+	error?: unknown;
+	/** When the task finished, in milliseconds since epoch */
+	finishedAt: number;
+};
+
+/**
+ * Conditions for finding tasks
+ * @see TuzkManager.getTasks
+ */
+export type TuzkFilter = {
+	/**
+	 * State or states the task is in
+	 */
+	state?: TuzkState | `${TuzkState}` | (TuzkState | `${TuzkState}`)[];
+	/**
+	 * Tag the task has
+	 */
+	tag?: string;
+	/**
+	 * Name of the task
+	 */
+	name?: string;
+};
+
+/**
+ * Options for submitting a persistent task
+ * @see TuzkManager.submitPersistent
+ */
+export type PersistentSubmitOptions = SubmitOptions & {
+	/**
+	 * Unique id of the stored record, also used as {@link Tuzk.id}
+	 * @default A random UUID
+	 */
+	id?: string;
+};
+
+/**
+ * Creates the runner of a persistent task from its parameters
+ *
+ * The runner can resume from {@link Tuzk.getSnapshot} if the task is restored.
+ *
+ * @template P - Type of parameters, which must be serializable
+ * @template R - Type of the task result
+ */
+export type TuzkFactory<P = never, R = unknown> = (params: P) => TuzkRunner<Tuzk<R>>;
+
 /**
  * Manages a collection of Tuzk tasks, handling task submission, execution, and dependencies
  */
@@ -33,11 +257,38 @@ export class TuzkManager {
 	 * Event triggered when all tasks are finished
 	 */
 	public readonly onAllTasksFinished: Delegate<void> = new Delegate<void>('onAllTasksFinished');
+	/**
+	 * Event triggered when a pending task is blocked by a dependency that failed or was cancelled.
+	 *
+	 * The task is then cancelled or skipped, according to its {@link DependencyFailurePolicy}.
+	 */
+	public readonly onTaskBlocked: Delegate<[task: Tuzk<unknown, string>, dependency: Tuzk<unknown, string>]> =
+		new Delegate('onTaskBlocked');
+	/**
+	 * Event triggered when a pending task is skipped because of a failed or skipped dependency,
+	 * right before it is cancelled with a {@link SkippedError}
+	 */
+	public readonly onTaskSkipped: Delegate<[task: Tuzk<unknown, string>, dependency: Tuzk<unknown, string>]> =
+		new Delegate('onTaskSkipped');
+	/**
+	 * Stream of events of all tasks owned by this manager
+	 * @see Tuzk.onEvent
+	 */
+	public readonly onEvent: Delegate<TuzkEvent> = new Delegate<TuzkEvent>('onEvent');
+	/**
+	 * Event triggered when writing a persistent task to the storage fails
+	 */
+	public readonly onStorageError: Delegate<unknown> = new Delegate<unknown>('onStorageError');
+	/**
+	 * Event triggered when a finished task is evicted according to {@link retention}
+	 *
+	 * Use it to archive summaries of tasks elsewhere.
+	 */
+	public readonly onTaskEvicted: Delegate<TuzkSummary> = new Delegate<TuzkSummary>('onTaskEvicted');
 
 	// Task Queues
-	// push / shift
 	/**
-	 * Queue for tasks waiting to be activated
+	 * Queue for tasks waiting to be activated, ordered by priority (descending) then by submission order
 	 */
 	protected readonly pendingQueue: WrappedTuzk[] = [];
 	/**
@@ -45,17 +296,367 @@ export class TuzkManager {
 	 */
 	protected readonly activated: Set<WrappedTuzk> = new Set();
 	/**
-	 * Set of completed tasks
+	 * Completed tasks, mapped to when they finished, in finishing order
+	 */
+	protected readonly finished: Map<WrappedTuzk, number> = new Map();
+	/**
+	 * Set of active tasks paused by the manager because concurrency limits were lowered.
+	 *
+	 * They are still in {@link activated}, but don't count as running.
+	 */
+	protected readonly throttled: Set<WrappedTuzk> = new Set();
+	/**
+	 * Set of active tasks paused by {@link pauseAll}, which {@link resumeAll} resumes.
+	 *
+	 * Tasks paused otherwise, or resumed meanwhile, are not in it.
+	 */
+	protected readonly pausedByManager: Set<WrappedTuzk> = new Set();
+
+	/**
+	 * All tasks owned by this manager, keyed by id, in submission order
+	 */
+	private readonly tasksById: Map<string, WrappedTuzk> = new Map();
+
+	/**
+	 * Concurrency limits of groups
+	 */
+	private readonly groupConcurrency: Map<string, number> = new Map();
+
+	private concurrencyLimit: number;
+
+	/**
+	 * Token buckets of the global rate limit and of group rate limits
+	 */
+	private rateLimitBucket?: TokenBucket;
+	private readonly groupRateLimitBuckets: Map<string, TokenBucket> = new Map();
+
+	/**
+	 * Timer that retries activation when a rate limited task can start
+	 */
+	private rateLimitTimerId?: unknown;
+
+	/**
+	 * Timer that evicts finished tasks when the earliest of them expires, see {@link RetentionPolicy.ttl}
+	 */
+	private evictionTimerId?: unknown;
+
+	/**
+	 * Storage of persistent tasks
 	 */
-	protected readonly finished: Set<WrappedTuzk> = new Set();
+	public readonly storage?: TuzkStorage;
 
-	public constructor(
-		/**
-		 * Maximum number of concurrent tasks allowed
-		 * @default 8
-		 */
-		public concurrency = 8,
-	) {}
+	/**
+	 * Registered task types of persistent tasks
+	 */
+	private readonly types: Map<string, TuzkFactory<never>> = new Map();
+
+	/**
+	 * Pending writes to the storage, chained so that they happen in order
+	 */
+	private storageWrites: Promise<void> = Promise.resolve();
+
+	/**
+	 * Counter used to assign {@link $sequence} to submitted tasks
+	 */
+	private sequenceCounter: number = 0;
+
+	/**
+	 * Whether {@link tryActivatePendingTasks} is running, and whether it should run again when finished
+	 */
+	private activating: boolean = false;
+	private activateAgain: boolean = false;
+
+	/**
+	 * Whether pending tasks are held in the queue, set by {@link pauseAll}
+	 */
+	private paused: boolean = false;
+
+	/**
+	 * Whether new tasks are rejected, set by {@link drain}
+	 */
+	private draining: boolean = false;
+
+	/**
+	 * Default retry policy, applied to submitted tasks that don't have their own
+	 */
+	public retryPolicy?: RetryPolicy;
+
+	/**
+	 * Default timeout in milliseconds, applied to submitted tasks that don't have their own
+	 *
+	 * @see Tuzk.timeout
+	 */
+	public timeout?: number;
+
+	/**
+	 * Default time slice in milliseconds, applied to submitted tasks that don't have their own
+	 *
+	 * @see Tuzk.timeSlice
+	 */
+	public timeSlice?: number;
+
+	/**
+	 * Scheduler shared by submitted tasks that don't have their own, if {@link TuzkManagerOptions.fairTimeSlicing} is set
+	 *
+	 * Active CPU-bound tasks then get their slices in round-robin order, with an event loop turn between slices.
+	 *
+	 * @see Tuzk.sliceScheduler
+	 */
+	public readonly sliceScheduler?: TimeSliceScheduler;
+
+	/**
+	 * What to do with a pending task when one of its dependencies failed, unless the task has its own policy
+	 * @default 'cancel'
+	 */
+	public dependencyFailurePolicy: DependencyFailurePolicy;
+
+	/**
+	 * Whether to pause running tasks that exceed a concurrency limit after it is lowered.
+	 *
+	 * They are resumed when there are free slots again. If false, lowering a limit only stops new activations.
+	 *
+	 * @default false
+	 */
+	public pauseExcessTasks: boolean;
+
+	/**
+	 * How long finished tasks are kept
+	 *
+	 * Tasks are evicted when another task finishes, when tasks are queried, and when their {@link RetentionPolicy.ttl}
+	 * expires.
+	 *
+	 * @default Keep all finished tasks
+	 */
+	public retention: RetentionPolicy;
+
+	/**
+	 * Source of time used by rate limits, retention and schedules
+	 *
+	 * Submitted tasks that don't have their own clock use it too, see {@link Tuzk.clock}.
+	 *
+	 * @default {@link systemClock}
+	 */
+	public readonly clock: TuzkClock;
+
+	/**
+	 * Active schedules created by {@link schedule}
+	 */
+	private readonly schedules: Set<TuzkScheduleHandle<unknown>> = new Set();
+
+	/**
+	 * @param concurrency - Maximum number of concurrent tasks allowed
+	 * @param options - Options of the manager
+	 */
+	public constructor(concurrency: number = 8, options: TuzkManagerOptions = {}) {
+		this.concurrencyLimit = concurrency;
+		this.clock = options.clock ?? systemClock;
+		this.retryPolicy = options.retryPolicy;
+		this.timeout = options.timeout;
+		this.timeSlice = options.timeSlice;
+		if (options.fairTimeSlicing) {
+			this.sliceScheduler = new TimeSliceScheduler();
+		}
+		this.dependencyFailurePolicy = options.dependencyFailurePolicy ?? 'cancel';
+		this.pauseExcessTasks = options.pauseExcessTasks ?? false;
+		this.retention = options.retention ?? {};
+		for (const [group, limit] of Object.entries(options.groupConcurrency ?? {})) {
+			this.groupConcurrency.set(group, limit);
+		}
+		if (options.rateLimit !== undefined) {
+			this.rateLimitBucket = new TokenBucket(options.rateLimit, this.clock.now());
+		}
+		for (const [group, rateLimit] of Object.entries(options.groupRateLimits ?? {})) {
+			this.groupRateLimitBuckets.set(group, new TokenBucket(rateLimit, this.clock.now()));
+		}
+		this.storage = options.storage;
+		for (const [name, factory] of Object.entries(options.types ?? {})) {
+			this.types.set(name, factory);
+		}
+	}
+
+	/**
+	 * Maximum number of concurrent tasks allowed
+	 *
+	 * Changes take effect immediately. See {@link pauseExcessTasks} for what happens when it is lowered.
+	 *
+	 * @default 8
+	 */
+	public get concurrency(): number {
+		return this.concurrencyLimit;
+	}
+
+	public set concurrency(value: number) {
+		this.concurrencyLimit = value;
+		this.tryActivatePendingTasks();
+	}
+
+	/**
+	 * Gets the concurrency limit of a group
+	 * @param group - Name of the group
+	 * @returns The limit, or `Infinity` if the group has no limit
+	 */
+	public getGroupConcurrency(group: string): number {
+		return this.groupConcurrency.get(group) ?? Infinity;
+	}
+
+	/**
+	 * Sets the concurrency limit of a group. Tasks join a group by {@link SubmitOptions.group}.
+	 *
+	 * The global {@link concurrency} limit still applies. Changes take effect immediately.
+	 *
+	 * @param group - Name of the group
+	 * @param limit - Maximum number of concurrent tasks in the group, or `undefined` to remove the limit
+	 */
+	public setGroupConcurrency(group: string, limit: number | undefined): void {
+		if (limit === undefined) {
+			this.groupConcurrency.delete(group);
+		} else {
+			this.groupConcurrency.set(group, limit);
+		}
+		this.tryActivatePendingTasks();
+	}
+
+	/**
+	 * Gets the rate limit of task activation
+	 * @returns The rate limit, or `undefined` if there is none
+	 */
+	public getRateLimit(): RateLimit | undefined {
+		return this.rateLimitBucket?.rateLimit;
+	}
+
+	/**
+	 * Limits how often pending tasks are activated. Rate limited tasks stay in the pending queue.
+	 *
+	 * The bucket is refilled when the limit is changed.
+	 *
+	 * @param rateLimit - The rate limit, or `undefined` to remove it
+	 * @throws {TuzkError} If the rate limit is invalid
+	 */
+	public setRateLimit(rateLimit: RateLimit | undefined): void {
+		this.rateLimitBucket = rateLimit === undefined ? undefined : new TokenBucket(rateLimit, this.clock.now());
+		this.tryActivatePendingTasks();
+	}
+
+	/**
+	 * Gets the rate limit of a group
+	 * @param group - Name of the group
+	 * @returns The rate limit, or `undefined` if the group has none
+	 */
+	public getGroupRateLimit(group: string): RateLimit | undefined {
+		return this.groupRateLimitBuckets.get(group)?.rateLimit;
+	}
+
+	/**
+	 * Limits how often pending tasks of a group are activated. The global rate limit still applies.
+	 *
+	 * @param group - Name of the group
+	 * @param rateLimit - The rate limit, or `undefined` to remove it
+	 * @throws {TuzkError} If the rate limit is invalid
+	 */
+	public setGroupRateLimit(group: string, rateLimit: RateLimit | undefined): void {
+		if (rateLimit === undefined) {
+			this.groupRateLimitBuckets.delete(group);
+		} else {
+			this.groupRateLimitBuckets.set(group, new TokenBucket(rateLimit, this.clock.now()));
+		}
+		this.tryActivatePendingTasks();
+	}
+
+	/**
+	 * Gets when rate limits allow the next task to be activated
+	 *
+	 * Concurrency limits and dependencies are not considered.
+	 *
+	 * @param group - If given, also consider the rate limit of this group
+	 * @returns Timestamp in milliseconds, which is now if a task can be activated right away
+	 */
+	public getNextSlotTime(group?: string): number {
+		const now = this.clock.now();
+		return now + this.getRateLimitWaitTime(group, now);
+	}
+
+	/**
+	 * Time until rate limits allow a task of the given group to be activated
+	 * @returns Delay in milliseconds, 0 if allowed now
+	 */
+	protected getRateLimitWaitTime(group: string | undefined, now: number): number {
+		let waitTime = this.rateLimitBucket?.getWaitTime(now) ?? 0;
+		if (group !== undefined) {
+			waitTime = Math.max(waitTime, this.groupRateLimitBuckets.get(group)?.getWaitTime(now) ?? 0);
+		}
+		return waitTime;
+	}
+
+	/**
+	 * Schedules {@link tryActivatePendingTasks} to run after the given delay, replacing the previous schedule
+	 * @param delay - Delay in milliseconds, or `Infinity` to cancel the schedule
+	 */
+	private scheduleRateLimitTimer(delay: number): void {
+		this.clock.clearTimeout(this.rateLimitTimerId);
+		this.rateLimitTimerId = undefined;
+		if (delay !== Infinity) {
+			this.rateLimitTimerId = this.clock.setTimeout(() => {
+				this.rateLimitTimerId = undefined;
+				this.tryActivatePendingTasks();
+			}, delay);
+		}
+	}
+
+	/**
+	 * Counts running tasks, which are active and not throttled
+	 * @param group - If given, only count tasks in this group
+	 */
+	protected countRunning(group?: string): number {
+		let count = 0;
+		for (const task of this.activated) {
+			if (!this.throttled.has(task) && (group === undefined || task[$group] === group)) {
+				count++;
+			}
+		}
+		return count;
+	}
+
+	/**
+	 * Checks if one more task of the given group can run without exceeding concurrency limits
+	 */
+	protected hasFreeSlot(group?: string): boolean {
+		if (this.countRunning() >= this.concurrency) {
+			return false;
+		}
+		return group === undefined || this.countRunning(group) < this.getGroupConcurrency(group);
+	}
+
+	/**
+	 * Pauses running tasks exceeding concurrency limits if {@link pauseExcessTasks} is enabled,
+	 * and resumes throttled tasks when there are free slots
+	 */
+	protected rebalance(): void {
+		if (this.pauseExcessTasks) {
+			// Latest activated tasks are throttled first
+			const running = [...this.activated].filter((task) =>
+				!this.throttled.has(task) && task.stateIs(TuzkState.Running)
+			);
+			for (const task of running.reverse()) {
+				const group = task[$group];
+				const exceeded = this.countRunning() > this.concurrency ||
+					(group !== undefined && this.countRunning(group) > this.getGroupConcurrency(group));
+				if (exceeded) {
+					this.throttled.add(task);
+					task.pause('Concurrency limit exceeded');
+				}
+			}
+		}
+
+		if (this.paused) {
+			return;
+		}
+		for (const task of [...this.throttled]) {
+			if (this.hasFreeSlot(task[$group])) {
+				this.throttled.delete(task);
+				task.resume('Concurrency slot available');
+			}
+		}
+	}
 
 	/**
 	 * Checks if all tasks are finished
@@ -67,23 +668,43 @@ export class TuzkManager {
 
 	/**
 	 * Adds a dependency between two tasks
+	 *
+	 * The dependency may be finished and no longer owned by any manager, like an evicted task.
+	 * It's then met if it succeeded, and handled by the {@link DependencyFailurePolicy} otherwise.
+	 *
 	 * @param tuzk - The task that depends on another
 	 * @param dependency - The task that must complete first
+	 * @throws {TuzkError} If the dependency is pending but not submitted to any manager
+	 * @throws {Error} If the dependency would be circular
 	 */
 	public addDependency<R>(tuzk: Tuzk<R, string>, dependency: Tuzk<unknown, string>) {
 		const task = this.wrapTuzk(tuzk);
+		if (!isWrappedTuzk(dependency) && !dependency.isFinished() && !(dependency as WrappedTuzk)[$removed]) {
+			throw new TuzkError(`Dependency ${dependency} is not submitted to any manager`);
+		}
 		if (!canDependOn(task, dependency)) {
 			throw new Error('Circular dependency detected');
 		}
 
 		task[$dependencies].add(dependency);
 
+		if ((dependency as WrappedTuzk)[$manager] !== this && !dependency.isFinished()) {
+			// Owned by another manager, so finishing it doesn't activate pending tasks here
+			dependency.onStateUpdated.addListener((e) => {
+				if (dependency.isFinished()) {
+					e.removeSelf();
+					this.tryActivatePendingTasks();
+				}
+			});
+		}
+
 		function canDependOn(task: Tuzk<unknown, string>, dep: Tuzk<unknown, string>) {
 			if (dep === task) {
 				return false;
 			}
-			if (!isWrappedTuzk(dep)) {
-				return false;
+			if (dep.isFinished() || !isWrappedTuzk(dep)) {
+				// Doesn't wait for anything
+				return true;
 			}
 			if (dep[$dependencies].has(dep)) {
 				return false;
@@ -101,20 +722,197 @@ export class TuzkManager {
 	}
 
 	/**
-	 * Attempts to activate pending tasks if concurrency limit allows
+	 * Gets the priority of a task submitted to this manager
+	 * @param tuzk - The task to inspect
+	 * @returns The priority of the task
 	 */
-	protected tryActivatePendingTasks(): void {
-		let i = 0;
-		while (i < this.pendingQueue.length && this.activated.size < this.concurrency) {
-			const task = this.pendingQueue[i];
-			if (task[$areDependenciesMet]()) {
-				this.pendingQueue.splice(i, 1);
-				this.activated.add(task);
-				task.run();
-				this.onTaskActivated.broadcast(task);
+	public getPriority(tuzk: Tuzk<unknown, string>): number {
+		return this.getOwnTask(tuzk)[$priority];
+	}
+
+	/**
+	 * Changes the priority of a task submitted to this manager
+	 *
+	 * If the task is still pending, it is moved to its new position in the pending queue,
+	 * and may be activated immediately.
+	 *
+	 * @param tuzk - The task to update
+	 * @param priority - The new priority
+	 */
+	public setPriority(tuzk: Tuzk<unknown, string>, priority: number): void {
+		const task = this.getOwnTask(tuzk);
+		if (task[$priority] === priority) {
+			return;
+		}
+		task[$priority] = priority;
+
+		const index = this.pendingQueue.indexOf(task);
+		if (index !== -1) {
+			this.pendingQueue.splice(index, 1);
+			this.enqueue(task);
+			this.tryActivatePendingTasks();
+		}
+	}
+
+	/**
+	 * Gets the wrapped task if it belongs to this manager
+	 * @throws {Error} If the task was not submitted to this manager
+	 */
+	protected getOwnTask<R>(tuzk: Tuzk<R, string>): WrappedTuzk<R> {
+		const task = tuzk as WrappedTuzk<R>;
+		if (task[$manager] !== this) {
+			throw new Error('Task does not belong to this manager');
+		}
+		return task;
+	}
+
+	/**
+	 * Inserts a task into the pending queue, keeping it ordered by priority then by submission order
+	 */
+	protected enqueue(task: WrappedTuzk): void {
+		const index = this.pendingQueue.findIndex((queued) =>
+			queued[$priority] < task[$priority] ||
+			(queued[$priority] === task[$priority] && queued[$sequence] > task[$sequence])
+		);
+		if (index === -1) {
+			this.pendingQueue.push(task);
+		} else {
+			this.pendingQueue.splice(index, 0, task);
+		}
+	}
+
+	/**
+	 * Checks if a dependency will never succeed, other than by being skipped
+	 */
+	protected isDependencyFailed(dependency: Tuzk<unknown, string>): boolean {
+		if (dependency.stateIs('success') || this.isDependencySkipped(dependency)) {
+			return false;
+		}
+		return dependency.isFinished() ||
+			(dependency as WrappedTuzk)[$removed] === true;
+	}
+
+	/**
+	 * Checks if a dependency was skipped by the `skip` {@link DependencyFailurePolicy}
+	 */
+	protected isDependencySkipped(dependency: Tuzk<unknown, string>): boolean {
+		return dependency.stateIs('cancelled') && dependency.error instanceof SkippedError;
+	}
+
+	/**
+	 * Checks if a task can be activated, according to its dependencies and its {@link DependencyFailurePolicy}
+	 */
+	protected areDependenciesMet(task: WrappedTuzk): boolean {
+		const policy = task[$dependencyFailurePolicy] ?? this.dependencyFailurePolicy;
+		for (const dependency of task[$dependencies]) {
+			if (dependency.stateIs('success')) {
+				continue;
+			}
+			if (policy === 'run' && (this.isDependencyFailed(dependency) || this.isDependencySkipped(dependency))) {
 				continue;
 			}
-			i++;
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Cancels or skips a pending task if any of its dependencies failed, and skips it if any was skipped
+	 * @returns true if the task was removed from the pending queue
+	 */
+	protected handleFailedDependency(task: WrappedTuzk): boolean {
+		const policy = task[$dependencyFailurePolicy] ?? this.dependencyFailurePolicy;
+		if (policy === 'run') {
+			return false;
+		}
+
+		const dependencies = [...task[$dependencies]];
+		const failed = dependencies.find((dependency) => this.isDependencyFailed(dependency));
+		if (failed !== undefined) {
+			this.pendingQueue.splice(this.pendingQueue.indexOf(task), 1);
+			this.onTaskBlocked.broadcast([task, failed]);
+			if (policy === 'cancel') {
+				task.cancel(new DependencyFailedError(failed));
+			} else {
+				this.skipTask(task, failed);
+			}
+			return true;
+		}
+
+		const skipped = dependencies.find((dependency) => this.isDependencySkipped(dependency));
+		if (skipped !== undefined) {
+			this.pendingQueue.splice(this.pendingQueue.indexOf(task), 1);
+			this.skipTask(task, skipped);
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Cancels a task that is removed from the pending queue with a {@link SkippedError}
+	 */
+	protected skipTask(task: WrappedTuzk, dependency: Tuzk<unknown, string>): void {
+		this.onTaskSkipped.broadcast([task, dependency]);
+		task.cancel(new SkippedError(dependency));
+	}
+
+	/**
+	 * Attempts to activate pending tasks if concurrency and rate limits allow
+	 *
+	 * Tasks are visited in queue order, so ready tasks with higher priority are activated first.
+	 * Tasks blocked by failed dependencies are cancelled or skipped.
+	 * If a ready task is rate limited, activation is retried when a token is available.
+	 *
+	 * Nothing is activated while the manager is paused by {@link pauseAll}.
+	 * Throttled tasks are resumed before pending tasks are activated.
+	 */
+	protected tryActivatePendingTasks(): void {
+		if (this.activating) {
+			// Called again by a listener, continue after current pass
+			this.activateAgain = true;
+			return;
+		}
+
+		this.activating = true;
+		try {
+			let rateLimitWait: number;
+			do {
+				this.activateAgain = false;
+				this.rebalance();
+				rateLimitWait = Infinity;
+				const now = this.clock.now();
+				let i = 0;
+				while (i < this.pendingQueue.length) {
+					const task = this.pendingQueue[i];
+					if (this.handleFailedDependency(task)) {
+						this.activateAgain = true;
+						continue;
+					}
+					if (!this.paused && this.hasFreeSlot(task[$group]) && this.areDependenciesMet(task)) {
+						const waitTime = this.getRateLimitWaitTime(task[$group], now);
+						if (waitTime > 0) {
+							// Stay in queue until a token is available
+							rateLimitWait = Math.min(rateLimitWait, waitTime);
+							i++;
+							continue;
+						}
+						this.rateLimitBucket?.tryTake(now);
+						if (task[$group] !== undefined) {
+							this.groupRateLimitBuckets.get(task[$group])?.tryTake(now);
+						}
+						this.pendingQueue.splice(i, 1);
+						this.activated.add(task);
+						// Failures are reported through the task state and `onTaskFinished`
+						task.run().catch(() => {});
+						this.onTaskActivated.broadcast(task);
+						continue;
+					}
+					i++;
+				}
+			} while (this.activateAgain);
+			this.scheduleRateLimitTimer(rateLimitWait);
+		} finally {
+			this.activating = false;
 		}
 	}
 
@@ -124,26 +922,33 @@ export class TuzkManager {
 	 * @returns The wrapped Tuzk instance
 	 */
 	protected wrapTuzk<R>(tuzk: Tuzk<R, string>): WrappedTuzk<R> {
+		const wrapped = tuzk as WrappedTuzk<R>;
+		if (wrapped[$manager] === this) {
+			return wrapped;
+		}
+		if (wrapped[$manager] !== undefined) {
+			throw new TuzkError(`${tuzk} belongs to another manager`);
+		}
+		if (this.tasksById.has(tuzk.id)) {
+			throw new TuzkError(`Duplicate task id: ${tuzk.id}`);
+		}
+
 		const task = Object.assign(tuzk, {
+			[$manager]: this,
 			[$dependencies]: new Set(),
-			[$areDependenciesMet]() {
-				for (const dependency of this[$dependencies]) {
-					if (!dependency.stateIs('success')) {
-						return false;
-					}
-				}
-				return true;
-			},
+			[$priority]: 0,
+			[$sequence]: 0,
+			[$removed]: false,
 		} as TuzkWrapper);
+		this.tasksById.set(task.id, task);
 
-		if (task[$manager] === this) {
-			return task;
-		}
-		if (task[$manager] !== undefined) {
-			throw new Error(`Task belongs to another manager: ${task[$manager]}`);
-		}
-
-		task[$manager] = this;
+		task.onEvent.setListener(TuzkManager, (event) => {
+			if (task[$manager] !== this) {
+				event.removeSelf();
+				return;
+			}
+			this.onEvent.broadcast(event.data);
+		});
 
 		task.onStateUpdated.setListener(TuzkManager, (event) => {
 			if (task[$manager] !== this) {
@@ -159,6 +964,9 @@ export class TuzkManager {
 					if (oldState !== TuzkState.Running && oldState !== TuzkState.Paused) {
 						// Activated
 						this.onTaskActivated.broadcast(task);
+					} else if (oldState === TuzkState.Paused) {
+						// Resumed by someone else
+						this.pausedByManager.delete(task);
 					}
 					break;
 				}
@@ -168,8 +976,15 @@ export class TuzkManager {
 					// Finished
 
 					// move self to finished set
+					const index = this.pendingQueue.indexOf(task);
+					if (index !== -1) {
+						// Cancelled before activated
+						this.pendingQueue.splice(index, 1);
+					}
 					this.activated.delete(task);
-					this.finished.add(task);
+					this.throttled.delete(task);
+					this.pausedByManager.delete(task);
+					this.finished.set(task, this.clock.now());
 
 					// find pending task to start
 					this.tryActivatePendingTasks();
@@ -179,8 +994,7 @@ export class TuzkManager {
 					if (this.isAllFinished()) {
 						this.onAllTasksFinished.broadcast();
 					}
-
-					event.removeSelf();
+					this.evictFinishedTasks();
 					break;
 				}
 			}
@@ -191,17 +1005,42 @@ export class TuzkManager {
 
 	/**
 	 * Submits a new task to be managed
+	 *
+	 * A finished task can be submitted again. It's reset to pending and runs again as a new run, see {@link Tuzk.reset}.
+	 *
 	 * @param tuzkLike - The task or task-like object to submit
-	 * @param dependencies - Optional set of tasks this task depends on
+	 * @param options - Submit options, or a set of tasks this task depends on
 	 * @returns The wrapped task instance
+	 * @throws {TuzkError} If the manager is draining
 	 */
-	public submit<R>(tuzkLike: TuzkLike<R>, dependencies?: Iterable<Tuzk<unknown, string>>): WrappedTuzk<R> {
-		const tuzk = Tuzk.from(tuzkLike);
+	public submit<R>(
+		tuzkLike: TuzkLike<R> | Tuzk<R, string>,
+		options: SubmitOptions | Iterable<Tuzk<unknown, string>> = {},
+	): WrappedTuzk<R> {
+		if (this.draining) {
+			throw new TuzkError('Cannot submit task while the manager is draining');
+		}
+		if (Symbol.iterator in options) {
+			options = { dependencies: options };
+		}
+
+		const tuzk = tuzkLike instanceof Tuzk ? tuzkLike : Tuzk.from(tuzkLike);
 		const task = this.wrapTuzk(tuzk);
+		if (task.isFinished()) {
+			// A finished task starts a new run with new dependencies
+			task.reset();
+			task[$dependencies].clear();
+		}
 		this.finished.delete(task);
 
-		if (dependencies) {
-			for (const dependency of dependencies) {
+		task.retryPolicy ??= this.retryPolicy;
+		task.timeout ??= this.timeout;
+		task.clock ??= this.clock;
+		task.timeSlice ??= this.timeSlice;
+		task.sliceScheduler ??= this.sliceScheduler;
+
+		if (options.dependencies) {
+			for (const dependency of options.dependencies) {
 				this.addDependency(task, dependency);
 			}
 		}
@@ -213,19 +1052,120 @@ export class TuzkManager {
 
 		// Task is not active
 
-		if (this.activated.size < this.concurrency) {
-			// activated set is not full, can start immediately
-			this.activated.add(task);
-			task.run();
-			this.onTaskActivated.broadcast(task);
+		const index = this.pendingQueue.indexOf(task);
+		if (index === -1) {
+			task[$sequence] = this.sequenceCounter++;
+			task.emitEvent('queued');
 		} else {
-			// activated set is full, add to pending queue
-			this.pendingQueue.push(task);
+			// Already queued, keep its place among tasks with equal priority
+			this.pendingQueue.splice(index, 1);
 		}
+		task[$priority] = options.priority ?? 0;
+		task[$dependencyFailurePolicy] = options.dependencyFailurePolicy;
+		task[$group] = options.group;
+		this.enqueue(task);
+		this.tryActivatePendingTasks();
 
 		return task;
 	}
 
+	/**
+	 * Evicts finished tasks that {@link retention} doesn't keep
+	 */
+	protected evictFinishedTasks(): void {
+		const { maxFinished = Infinity, ttl = Infinity, keep = 'all' } = this.retention;
+		const now = this.clock.now();
+		let excess = this.finished.size - maxFinished;
+		for (const [task, finishedAt] of this.finished) {
+			if (excess > 0 || now - finishedAt >= ttl || (keep === 'failures' && !task.stateIs(TuzkState.Failed))) {
+				excess--;
+				this.finished.delete(task);
+				this.tasksById.delete(task.id);
+				task[$manager] = undefined;
+				this.onTaskEvicted.broadcast({
+					id: task.id,
+					name: task.name,
+					tags: [...task.tags],
+					metadata: task.metadata,
+					state: task.getState(),
+					error: task.error,
+					finishedAt,
+				});
+			}
+		}
+
+		this.clock.clearTimeout(this.evictionTimerId);
+		this.evictionTimerId = undefined;
+		const earliest = this.finished.values().next();
+		if (ttl !== Infinity && !earliest.done && !this.draining) {
+			this.evictionTimerId = this.clock.setTimeout(() => {
+				this.evictionTimerId = undefined;
+				this.evictFinishedTasks();
+			}, Math.max(0, earliest.value + ttl - now));
+		}
+	}
+
+	/**
+	 * Gets a task owned by this manager by its id
+	 * @param id - Id of the task
+	 * @returns The task, or `undefined` if not found
+	 */
+	public getTask(id: string): Tuzk<unknown, string> | undefined {
+		this.evictFinishedTasks();
+		return this.tasksById.get(id);
+	}
+
+	/**
+	 * Lists tasks owned by this manager, in submission order
+	 *
+	 * @param filter - If given, only tasks matching all its conditions are listed
+	 */
+	public getTasks(filter: TuzkFilter = {}): Tuzk<unknown, string>[] {
+		this.evictFinishedTasks();
+		const states = filter.state === undefined ? undefined : [filter.state].flat();
+		return [...this.tasksById.values()].filter((task) =>
+			(states === undefined || states.includes(task.getState())) &&
+			(filter.tag === undefined || task.tags.has(filter.tag)) &&
+			(filter.name === undefined || task.name === filter.name)
+		);
+	}
+
+	/**
+	 * Counts tasks owned by this manager in each state
+	 */
+	public countByState(): Record<TuzkState, number> {
+		this.evictFinishedTasks();
+		const counts = Object.fromEntries(Object.values(TuzkState).map((state) => [state, 0])) as Record<
+			TuzkState,
+			number
+		>;
+		for (const task of this.tasksById.values()) {
+			counts[task.getState()]++;
+		}
+		return counts;
+	}
+
+	/**
+	 * Estimates milliseconds until all pending and active tasks finish
+	 *
+	 * It assumes every task is the same amount of work, and running tasks keep their current rates.
+	 *
+	 * @returns The ETA, 0 if all tasks are finished, or `undefined` if it can't be estimated
+	 * @see Tuzk.getEta
+	 */
+	public getEta(): number | undefined {
+		let remaining = 0;
+		let rate = 0;
+		for (const task of [...this.pendingQueue, ...this.activated]) {
+			remaining += 1 - task.getProgress();
+			rate += task.getRate();
+		}
+		if (remaining === 0) {
+			return 0;
+		}
+		return rate > 0 ? remaining / rate * 1000 : undefined;
+	}
+
 	/**
 	 * Waits for all tasks to complete
 	 * @returns A promise that resolves when all tasks are finished
@@ -242,4 +1182,386 @@ export class TuzkManager {
 			});
 		});
 	}
+
+	/**
+	 * Iterates over tasks as they finish, until all tasks are finished
+	 *
+	 * Tasks finished before iterating are not yielded.
+	 *
+	 * ```ts
+	 * for await (const task of manager.completed()) {
+	 *   console.log(task.getState(), task.getResult());
+	 * }
+	 * ```
+	 */
+	public completed(): AsyncIterableIterator<Tuzk<unknown, string>, void, undefined> {
+		const queue = new AsyncQueue<Tuzk<unknown, string>>();
+		if (this.isAllFinished()) {
+			queue.close();
+			return queue;
+		}
+		const push = (task: Tuzk<unknown, string>) => {
+			queue.push(task);
+			if (this.isAllFinished()) {
+				queue.close();
+			}
+		};
+		this.onTaskFinished.addListener((e) => queue.isClosed() ? e.removeSelf() : push(e.data));
+		this.onAllTasksFinished.addListener((e) => {
+			e.removeSelf();
+			queue.close();
+		});
+		return queue;
+	}
+
+	/**
+	 * Same as {@link completed}
+	 */
+	public [Symbol.asyncIterator](): AsyncIterableIterator<Tuzk<unknown, string>, void, undefined> {
+		return this.completed();
+	}
+
+	/**
+	 * Pauses all active tasks, and holds pending tasks in the queue until {@link resumeAll} is called
+	 *
+	 * Tasks submitted meanwhile are queued too.
+	 */
+	public pauseAll(): void {
+		this.paused = true;
+		for (const task of this.activated) {
+			if (task.stateIs(TuzkState.Running) && !task.isMarkedAsPaused() && !this.throttled.has(task)) {
+				this.pausedByManager.add(task);
+				task.pause('Manager paused');
+			}
+		}
+	}
+
+	/**
+	 * Resumes tasks paused by {@link pauseAll}, and continues activating pending tasks
+	 *
+	 * Tasks paused individually stay paused.
+	 */
+	public resumeAll(): void {
+		this.paused = false;
+		for (const task of this.pausedByManager) {
+			if (task.isActive() && !this.throttled.has(task)) {
+				task.resume('Manager resumed');
+			}
+		}
+		this.pausedByManager.clear();
+		this.tryActivatePendingTasks();
+	}
+
+	/**
+	 * Checks if the manager is paused by {@link pauseAll}
+	 */
+	public isPaused(): boolean {
+		return this.paused;
+	}
+
+	/**
+	 * Cancels all pending and active tasks
+	 *
+	 * Pending tasks are cancelled immediately, active tasks are cancelled at their next checkpoint.
+	 */
+	public cancelAll(): void {
+		// Hold activation, so that cancelling a task doesn't start queued tasks that are cancelled next
+		const activating = this.activating;
+		this.activating = true;
+		try {
+			for (const task of [...this.pendingQueue]) {
+				task.cancel();
+			}
+			for (const task of this.activated) {
+				if (task.isActive()) {
+					task.cancel();
+				}
+			}
+		} finally {
+			this.activating = activating;
+		}
+		if (!activating && this.activateAgain) {
+			// Tasks submitted by listeners meanwhile
+			this.tryActivatePendingTasks();
+		}
+	}
+
+	/**
+	 * Removes a task from the pending queue without running or cancelling it
+	 *
+	 * The task no longer belongs to this manager, and can be submitted again.
+	 * Its dependents are handled as if it failed.
+	 *
+	 * @param tuzk - The task to remove
+	 * @returns true if the task was pending and is removed, false otherwise
+	 */
+	public remove(tuzk: Tuzk<unknown, string>): boolean {
+		const task = tuzk as WrappedTuzk;
+		const index = this.pendingQueue.indexOf(task);
+		if (index === -1) {
+			return false;
+		}
+
+		this.pendingQueue.splice(index, 1);
+		task[$manager] = undefined;
+		task[$removed] = true;
+		this.tasksById.delete(task.id);
+		if (task[$persistentId] !== undefined) {
+			const id = task[$persistentId];
+			task[$persistentId] = undefined;
+			this.writeStorage((storage) => storage.delete(id));
+		}
+		this.tryActivatePendingTasks();
+		if (this.isAllFinished()) {
+			this.onAllTasksFinished.broadcast();
+		}
+		return true;
+	}
+
+	/**
+	 * Registers a task type, so that persistent tasks of this type can be submitted and restored
+	 *
+	 * @param name - Unique name of the type, which is stored in records
+	 * @param factory - Creates the runner from parameters
+	 */
+	public registerType<P, R>(name: string, factory: TuzkFactory<P, R>): void {
+		this.types.set(name, factory as TuzkFactory<never>);
+	}
+
+	/**
+	 * Submits a persistent task, whose record is kept in {@link storage} until it finishes
+	 *
+	 * The record is updated whenever the runner writes a snapshot.
+	 * Only dependencies that are persistent tasks are stored.
+	 *
+	 * @param type - Name of a registered task type
+	 * @param params - Parameters passed to the task type, which must be serializable
+	 * @param options - Options for submitting the task
+	 * @returns The submitted task
+	 * @throws {TuzkError} If there is no storage, or the type is not registered
+	 */
+	public submitPersistent<P, R = unknown>(
+		type: string,
+		params: P,
+		options: PersistentSubmitOptions = {},
+	): WrappedTuzk<R> {
+		const dependencies = [...options.dependencies ?? []] as WrappedTuzk[];
+		const record: TuzkRecord = {
+			id: options.id ?? crypto.randomUUID(),
+			type,
+			params,
+			progress: 0,
+			priority: options.priority ?? 0,
+			group: options.group,
+			dependencies: dependencies.flatMap((dependency) => dependency[$persistentId] ?? []),
+		};
+		return this.submitRecord<R>(record, { ...options, dependencies });
+	}
+
+	/**
+	 * Restores unfinished persistent tasks from {@link storage}, and submits them
+	 *
+	 * Each task is created by its registered type, and starts from its last snapshot.
+	 * Dependencies between restored tasks are kept. Dependencies that are no longer stored are considered finished.
+	 *
+	 * @returns The restored tasks
+	 * @throws {TuzkError} If there is no storage, a type is not registered, an id is used by several records or by
+	 * a task of this manager, or the manager is draining. Nothing is submitted in this case.
+	 */
+	public async rehydrate(): Promise<Tuzk<unknown, string>[]> {
+		const records = await this.getStorage().load();
+		if (this.draining) {
+			throw new TuzkError('Cannot submit task while the manager is draining');
+		}
+		const ids = new Set<string>();
+		for (const record of records) {
+			this.getType(record.type);
+			if (ids.has(record.id) || this.tasksById.has(record.id)) {
+				throw new TuzkError(`Duplicate task id: ${record.id}`);
+			}
+			ids.add(record.id);
+		}
+
+		const recordsById = new Map(records.map((record) => [record.id, record]));
+		const tasks = new Map<string, Tuzk<unknown, string>>();
+		const visiting = new Set<string>();
+
+		const restore = (record: TuzkRecord) => {
+			if (tasks.has(record.id) || visiting.has(record.id)) {
+				return;
+			}
+			visiting.add(record.id);
+			// Submit dependencies first
+			for (const id of record.dependencies) {
+				const dependency = recordsById.get(id);
+				if (dependency !== undefined) {
+					restore(dependency);
+				}
+			}
+			const dependencies = record.dependencies.flatMap((id) => tasks.get(id) ?? []);
+			tasks.set(record.id, this.submitRecord(record, { dependencies }));
+		};
+
+		for (const record of records) {
+			restore(record);
+		}
+		return [...tasks.values()];
+	}
+
+	/**
+	 * Waits for pending writes to {@link storage}
+	 *
+	 * Failed writes are reported by {@link onStorageError}, so this never rejects.
+	 */
+	public flushStorage(): Promise<void> {
+		return this.storageWrites;
+	}
+
+	private getStorage(): TuzkStorage {
+		if (this.storage === undefined) {
+			throw new TuzkError('Persistent tasks require a storage');
+		}
+		return this.storage;
+	}
+
+	private getType(name: string): TuzkFactory<never> {
+		const factory = this.types.get(name);
+		if (factory === undefined) {
+			throw new TuzkError(`Unknown task type: ${name}`);
+		}
+		return factory;
+	}
+
+	/**
+	 * Queues a write to the storage
+	 */
+	private writeStorage(write: (storage: TuzkStorage) => Promise<void>): void {
+		const storage = this.getStorage();
+		this.storageWrites = this.storageWrites
+			.then(() => write(storage))
+			.catch((error: unknown) => this.onStorageError.broadcast(error));
+	}
+
+	/**
+	 * Creates a task from a record, keeps the record updated, and submits the task
+	 */
+	private submitRecord<R>(record: TuzkRecord, options: SubmitOptions): WrappedTuzk<R> {
+		const storage = this.getStorage();
+		const factory = this.getType(record.type) as TuzkFactory<unknown, R>;
+		if (this.tasksById.has(record.id)) {
+			throw new TuzkError(`Duplicate task id: ${record.id}`);
+		}
+		const tuzk: Tuzk<R> & Partial<TuzkWrapper> = new Tuzk<R>(factory(record.params), {
+			id: record.id,
+			snapshot: record.snapshot,
+		});
+		tuzk[$persistentId] = record.id;
+
+		const save = () => {
+			record.snapshot = tuzk.getSnapshot();
+			record.progress = tuzk.getProgress();
+			if (tuzk[$manager] === this) {
+				record.priority = tuzk[$priority] ?? record.priority;
+			}
+			const copy = { ...record };
+			this.writeStorage(() => storage.save(copy));
+		};
+		tuzk.onSnapshotUpdated.addListener((e) => {
+			if (tuzk[$persistentId] === record.id) {
+				save();
+			} else {
+				e.removeSelf();
+			}
+		});
+		tuzk.onStateUpdated.addListener((e) => {
+			if (tuzk.isFinished()) {
+				e.removeSelf();
+				if (tuzk[$persistentId] === record.id) {
+					tuzk[$persistentId] = undefined;
+					this.writeStorage(() => storage.delete(record.id));
+				}
+			}
+		});
+
+		save();
+		try {
+			return this.submit(tuzk, { ...options, priority: record.priority, group: record.group });
+		} catch (error: unknown) {
+			this.writeStorage(() => storage.delete(record.id));
+			throw error;
+		}
+	}
+
+	/**
+	 * Submits a task on a schedule
+	 *
+	 * Each occurrence submits the task again, which starts a new run, see {@link Tuzk.reset}.
+	 * If the previous run is still pending or active, {@link TuzkScheduleOptions.overlap} decides what happens.
+	 *
+	 * ```ts
+	 * manager.schedule(refresh, { every: 60_000 }, { overlap: 'skip' });
+	 * manager.schedule(report, { cron: '0 9 * * 1-5' });
+	 * ```
+	 *
+	 * @param tuzkLike - The task or task-like object to run
+	 * @param schedule - When to run it
+	 * @param options - Submit options and overlap policy
+	 * @returns A handle to stop the schedule
+	 * @throws {TuzkError} If the manager is draining, the task belongs to another manager, another task has the same id,
+	 * or the cron expression is invalid
+	 */
+	public schedule<R>(
+		tuzkLike: TuzkLike<R> | Tuzk<R, string>,
+		schedule: TuzkSchedule,
+		options: TuzkScheduleOptions = {},
+	): TuzkScheduleHandle<R> {
+		if (this.draining) {
+			throw new TuzkError('Cannot schedule task while the manager is draining');
+		}
+		const tuzk = tuzkLike instanceof Tuzk ? tuzkLike : Tuzk.from(tuzkLike);
+		const owner = (tuzk as WrappedTuzk)[$manager];
+		if (owner !== undefined && owner !== this) {
+			throw new TuzkError(`${tuzk} belongs to another manager`);
+		}
+		if (this.tasksById.has(tuzk.id) && this.tasksById.get(tuzk.id) !== tuzk) {
+			throw new TuzkError(`Duplicate task id: ${tuzk.id}`);
+		}
+		const handle = new TuzkScheduleHandle(this, tuzk, schedule, options);
+		if (!handle.isStopped()) {
+			this.schedules.add(handle);
+			handle.onStopped.addListener(() => this.schedules.delete(handle));
+		}
+		return handle;
+	}
+
+	/**
+	 * Gets schedules that are not stopped
+	 */
+	public getSchedules(): TuzkScheduleHandle<unknown>[] {
+		return [...this.schedules];
+	}
+
+	/**
+	 * Stops accepting new tasks, and waits for all submitted tasks to finish
+	 *
+	 * After this, {@link submit} throws. All schedules are stopped. It can't be undone.
+	 *
+	 * @returns A promise that resolves when all tasks are finished
+	 */
+	public drain(): Promise<void> {
+		this.draining = true;
+		this.clock.clearTimeout(this.evictionTimerId);
+		this.evictionTimerId = undefined;
+		for (const handle of [...this.schedules]) {
+			handle.stop();
+		}
+		return this.waitForAll();
+	}
+
+	/**
+	 * Checks if the manager is draining, which means it no longer accepts new tasks
+	 */
+	public isDraining(): boolean {
+		return this.draining;
+	}
 }
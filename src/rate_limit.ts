@@ -0,0 +1,92 @@
+import { TuzkError } from '@/errors.ts';
+
+/**
+ * Limits how often tasks can be started
+ *
+ * At most {@link RateLimit.limit} tasks are started per {@link RateLimit.interval} on average,
+ * and up to {@link RateLimit.burst} tasks can be started at once after being idle.
+ */
+export type RateLimit = {
+	/**
+	 * Number of starts allowed per interval
+	 */
+	limit: number;
+	/**
+	 * Length of the interval in milliseconds
+	 * @default 1000
+	 */
+	interval?: number;
+	/**
+	 * Maximum number of starts allowed at once
+	 * @default {@link RateLimit.limit}
+	 */
+	burst?: number;
+};
+
+/**
+ * Token bucket implementing {@link RateLimit}
+ *
+ * The bucket starts full. Tokens are refilled continuously, and each start takes one token.
+ */
+export class TokenBucket {
+	private tokens: number;
+	private updatedAt: number;
+
+	/**
+	 * @throws {TuzkError} If the limit or the interval is not a positive number, or the burst is less than 1
+	 */
+	public constructor(public readonly rateLimit: RateLimit, now: number = Date.now()) {
+		const { limit, interval = 1000, burst = limit } = rateLimit;
+		if (!(limit > 0 && Number.isFinite(limit))) {
+			throw new TuzkError(`Rate limit must be a positive number: ${limit}`);
+		}
+		if (!(interval > 0 && Number.isFinite(interval))) {
+			throw new TuzkError(`Rate limit interval must be a positive number: ${interval}`);
+		}
+		if (!(burst >= 1 && Number.isFinite(burst))) {
+			throw new TuzkError(`Rate limit burst must be at least 1: ${burst}`);
+		}
+		this.tokens = this.getCapacity();
+		this.updatedAt = now;
+	}
+
+	/**
+	 * Maximum number of tokens
+	 */
+	public getCapacity(): number {
+		return this.rateLimit.burst ?? this.rateLimit.limit;
+	}
+
+	private refill(now: number): void {
+		const elapsed = Math.max(0, now - this.updatedAt);
+		const rate = this.rateLimit.limit / (this.rateLimit.interval ?? 1000);
+		this.tokens = Math.min(this.getCapacity(), this.tokens + elapsed * rate);
+		this.updatedAt = now;
+	}
+
+	/**
+	 * Takes a token if one is available
+	 * @returns Whether a token was taken
+	 */
+	public tryTake(now: number = Date.now()): boolean {
+		this.refill(now);
+		if (this.tokens < 1) {
+			return false;
+		}
+		this.tokens -= 1;
+		return true;
+	}
+
+	/**
+	 * Time until a token is available
+	 * @returns Delay in milliseconds, 0 if a token is available now
+	 */
+	public getWaitTime(now: number = Date.now()): number {
+		this.refill(now);
+		if (this.tokens >= 1) {
+			return 0;
+		}
+		const rate = this.rateLimit.limit / (this.rateLimit.interval ?? 1000);
+		return Math.ceil((1 - this.tokens) / rate);
+	}
+}
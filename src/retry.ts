@@ -0,0 +1,87 @@
+import { CancelledError, TimeoutError } from '@/errors.ts';
+
+/**
+ * Describes whether and how a failed task should be retried
+ */
+export type RetryPolicy = {
+	/**
+	 * Maximum number of attempts, including the first one
+	 */
+	maxAttempts: number;
+	/**
+	 * How the delay grows between attempts
+	 *
+	 * - `fixed`: Always wait {@link RetryPolicy.delay}
+	 * - `exponential`: Wait `delay * factor ^ (attempt - 1)`
+	 *
+	 * @default 'fixed'
+	 */
+	backoff?: 'fixed' | 'exponential';
+	/**
+	 * Base delay in milliseconds
+	 * @default 0
+	 */
+	delay?: number;
+	/**
+	 * Multiplier of exponential backoff
+	 * @default 2
+	 */
+	factor?: number;
+	/**
+	 * Upper bound of the delay in milliseconds
+	 * @default Infinity
+	 */
+	maxDelay?: number;
+	/**
+	 * Random variation of the delay. Range: [0.0, 1.0]
+	 *
+	 * With jitter `j`, the actual delay is randomly picked in `[delay * (1 - j), delay * (1 + j)]`
+	 *
+	 * @default 0
+	 */
+	jitter?: number;
+	/**
+	 * Decides whether the given error is retryable
+	 *
+	 * {@link CancelledError} and {@link TimeoutError} are never retried, regardless of this predicate.
+	 *
+	 * @param error - The error thrown by the failed attempt
+	 * @param attempt - The number of the failed attempt, starting from 1
+	 * @default Every error is retryable
+	 */
+	retryIf?: (error: unknown, attempt: number) => boolean;
+};
+
+/**
+ * Checks if another attempt should be made after the given failed attempt
+ * @param policy - The retry policy
+ * @param error - The error thrown by the failed attempt
+ * @param attempt - The number of the failed attempt, starting from 1
+ */
+export function shouldRetry(policy: RetryPolicy, error: unknown, attempt: number): boolean {
+	if (error instanceof CancelledError || error instanceof TimeoutError) {
+		return false;
+	}
+	if (attempt >= policy.maxAttempts) {
+		return false;
+	}
+	return policy.retryIf?.(error, attempt) ?? true;
+}
+
+/**
+ * Calculates the delay before the next attempt
+ * @param policy - The retry policy
+ * @param attempt - The number of the failed attempt, starting from 1
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+	const base = policy.delay ?? 0;
+	let delay = policy.backoff === 'exponential' ? base * Math.pow(policy.factor ?? 2, attempt - 1) : base;
+	delay = Math.min(delay, policy.maxDelay ?? Infinity);
+
+	const jitter = policy.jitter ?? 0;
+	if (jitter > 0) {
+		delay *= 1 + jitter * (Math.random() * 2 - 1);
+	}
+	return Math.max(0, delay);
+}
@@ -0,0 +1,229 @@
+import { Delegate } from '@leawind/delegate';
+import { CronExpression } from '@/cron.ts';
+import type { SubmitOptions, TuzkManager } from '@/manager.ts';
+import type { Tuzk } from '@/tuzk.ts';
+import { TuzkState } from '@/types.ts';
+
+/**
+ * When a scheduled task runs
+ *
+ * - `{ delay }`: Once, after the delay in milliseconds
+ * - `{ at }`: Once, at the given time. Runs right away if the time has passed.
+ * - `{ every, delay? }`: Every `every` milliseconds. The first run is after `delay`, which defaults to `every`.
+ * - `{ cron }`: At times matching the cron expression, see {@link CronExpression}
+ */
+export type TuzkSchedule =
+	| { delay: number }
+	| { at: number | Date }
+	| { every: number; delay?: number }
+	| { cron: string };
+
+/**
+ * What to do when a scheduled run is due while the previous run is still pending or active
+ *
+ * - `skip`: Skip this run
+ * - `queue`: Run again as soon as the previous run finishes. Several due runs are merged into one.
+ * - `cancel`: Cancel the previous run, then run again as soon as it finishes
+ */
+export type OverlapPolicy = 'skip' | 'queue' | 'cancel';
+
+/**
+ * Options for {@link TuzkManager.schedule}
+ */
+export type TuzkScheduleOptions = SubmitOptions & {
+	/**
+	 * @default 'skip'
+	 */
+	overlap?: OverlapPolicy;
+};
+
+/**
+ * Handle of a schedule created by {@link TuzkManager.schedule}
+ *
+ * @template R - Result type of the task
+ */
+export class TuzkScheduleHandle<R> {
+	/**
+	 * Event triggered when a run is skipped because of {@link OverlapPolicy}, with the time it was due
+	 */
+	public readonly onSkipped: Delegate<number> = new Delegate<number>('onSkipped');
+	/**
+	 * Event triggered when the schedule is stopped, manually or because there are no more runs
+	 */
+	public readonly onStopped: Delegate<void> = new Delegate<void>('onStopped');
+	/**
+	 * Event triggered when a run cannot be submitted, with the error thrown by {@link TuzkManager.submit}.
+	 * The schedule is stopped before it's triggered.
+	 */
+	public readonly onError: Delegate<unknown> = new Delegate<unknown>('onError');
+
+	private readonly cron?: CronExpression;
+	private readonly createdAt: number;
+	private timerId?: unknown;
+	private nextRunTime?: number;
+	private occurrences: number = 0;
+	private stopped: boolean = false;
+
+	/**
+	 * Whether a run is waiting for the previous run to finish
+	 */
+	private queued: boolean = false;
+
+	/**
+	 * Submits the queued run when the previous run finishes
+	 */
+	private readonly onTaskFinished = (e: { data: Tuzk<unknown, string> }) => {
+		if (e.data === this.task && this.queued) {
+			this.queued = false;
+			this.submit();
+			if (this.nextRunTime === undefined) {
+				this.stop();
+			}
+		}
+	};
+
+	/**
+	 * @throws {TuzkError} If the cron expression is invalid
+	 */
+	public constructor(
+		private readonly manager: TuzkManager,
+		/** The task that runs on each occurrence */
+		public readonly task: Tuzk<R, string>,
+		/** When the task runs */
+		public readonly schedule: TuzkSchedule,
+		private readonly options: TuzkScheduleOptions = {},
+	) {
+		if ('cron' in schedule) {
+			this.cron = new CronExpression(schedule.cron);
+		}
+		this.createdAt = manager.clock.now();
+
+		manager.onTaskFinished.addListener(this.onTaskFinished);
+
+		this.scheduleNext(this.createdAt);
+	}
+
+	/**
+	 * Gets when the next run is due
+	 * @returns Timestamp in milliseconds, or `undefined` if there are no more runs
+	 */
+	public getNextRunTime(): number | undefined {
+		return this.nextRunTime;
+	}
+
+	/**
+	 * Number of runs that were due so far, including skipped ones
+	 */
+	public getOccurrenceCount(): number {
+		return this.occurrences;
+	}
+
+	/**
+	 * Stops the schedule. The current run is not cancelled.
+	 */
+	public stop(): void {
+		if (this.stopped) {
+			return;
+		}
+		this.stopped = true;
+		this.queued = false;
+		this.nextRunTime = undefined;
+		this.manager.clock.clearTimeout(this.timerId);
+		this.timerId = undefined;
+		this.manager.onTaskFinished.removeListener(this.onTaskFinished);
+		this.onStopped.broadcast();
+	}
+
+	public isStopped(): boolean {
+		return this.stopped;
+	}
+
+	/**
+	 * Computes when the run after the given due time is due
+	 * @param last - Due time of the last run, or creation time before the first run
+	 */
+	private computeNextRunTime(last: number): number | undefined {
+		const now = this.manager.clock.now();
+		const schedule = this.schedule;
+		if ('cron' in schedule) {
+			return this.cron!.next(Math.max(last, now));
+		} else if ('every' in schedule) {
+			if (this.occurrences === 0) {
+				return last + (schedule.delay ?? schedule.every);
+			}
+			const next = last + schedule.every;
+			// Skip runs missed while the clock jumped forward
+			return next >= now ? next : now + schedule.every - ((now - last) % schedule.every);
+		} else if (this.occurrences > 0) {
+			return undefined;
+		} else if ('at' in schedule) {
+			return schedule.at instanceof Date ? schedule.at.getTime() : schedule.at;
+		} else {
+			return last + schedule.delay;
+		}
+	}
+
+	private scheduleNext(last: number): void {
+		const next = this.computeNextRunTime(last);
+		this.nextRunTime = next;
+		if (next === undefined) {
+			if (!this.queued) {
+				this.stop();
+			}
+			return;
+		}
+		this.timerId = this.manager.clock.setTimeout(() => {
+			this.timerId = undefined;
+			this.occur(next);
+		}, Math.max(0, next - this.manager.clock.now()));
+	}
+
+	/**
+	 * Whether the previous run is still pending in the manager, or active
+	 */
+	private isOverlapping(): boolean {
+		return this.task.isActive() ||
+			(this.task.stateIs(TuzkState.Pending) && this.manager.getTask(this.task.id) === this.task);
+	}
+
+	private occur(dueTime: number): void {
+		if (this.stopped) {
+			return;
+		}
+		this.occurrences++;
+
+		if (!this.isOverlapping()) {
+			this.submit();
+		} else {
+			switch (this.options.overlap ?? 'skip') {
+				case 'skip':
+					this.onSkipped.broadcast(dueTime);
+					break;
+				case 'queue':
+					this.queued = true;
+					break;
+				case 'cancel':
+					this.queued = true;
+					this.task.cancel();
+					break;
+			}
+		}
+
+		if (!this.stopped) {
+			this.scheduleNext(dueTime);
+		}
+	}
+
+	private submit(): void {
+		if (this.manager.isDraining()) {
+			this.stop();
+			return;
+		}
+		try {
+			this.manager.submit(this.task, this.options);
+		} catch (error: unknown) {
+			this.stop();
+			this.onError.broadcast(error);
+		}
+	}
+}
@@ -0,0 +1,47 @@
+import { TuzkError } from '@/errors.ts';
+import type { TuzkProgressScope } from '@/types.ts';
+
+/**
+ * Maps local progress [0.0, 1.0] onto the range [start, end] of its parent
+ * @see BaseActiveTuzk.scope
+ */
+export class ProgressScope implements TuzkProgressScope {
+	public constructor(
+		private readonly parent: TuzkProgressScope,
+		/** Parent progress when this scope is at 0 */
+		public readonly start: number,
+		/** Parent progress when this scope is at 1 */
+		public readonly end: number,
+	) {
+		if (!(0 <= start && start <= end && end <= 1)) {
+			throw new TuzkError(`Invalid scope range: [${start}, ${end}]`);
+		}
+	}
+
+	public get signal(): AbortSignal {
+		return this.parent.signal;
+	}
+
+	/**
+	 * Converts local progress to parent progress
+	 */
+	private map(progress: number): number {
+		if (progress < 0 || progress > 1) {
+			throw new TuzkError('Progress must be in range [0.0, 1.0]');
+		}
+		// Avoid floating point errors going out of range
+		return Math.min(this.end, Math.max(this.start, this.start + (this.end - this.start) * progress));
+	}
+
+	public setProgress(progress: number): void {
+		this.parent.setProgress(this.map(progress));
+	}
+
+	public checkpoint(progress?: number, snapshot?: unknown): Promise<void> {
+		return this.parent.checkpoint(progress === undefined ? undefined : this.map(progress), snapshot);
+	}
+
+	public scope(start: number, end: number): TuzkProgressScope {
+		return new ProgressScope(this, start, end);
+	}
+}
@@ -0,0 +1,65 @@
+/**
+ * Serializable record of a persistent task
+ * @see TuzkManager.submitPersistent
+ */
+export type TuzkRecord = {
+	/** Unique id of the task */
+	id: string;
+	/** Name of the registered task type that creates the runner */
+	type: string;
+	/** Parameters passed to the task type */
+	params: unknown;
+	/** Last snapshot written by the runner */
+	snapshot?: unknown;
+	/** Last known progress. Range: [0.0, 1.0] */
+	progress: number;
+	/** Priority in the manager */
+	priority: number;
+	/** Concurrency group in the manager */
+	group?: string;
+	/** Ids of persistent tasks this task depends on */
+	dependencies: string[];
+};
+
+/**
+ * Storage of persistent task records
+ *
+ * Only unfinished tasks are stored. Records are deleted when their tasks finish.
+ */
+export interface TuzkStorage {
+	/**
+	 * Loads all stored records
+	 */
+	load(): Promise<TuzkRecord[]>;
+	/**
+	 * Creates or replaces a record with the same id
+	 */
+	save(record: TuzkRecord): Promise<void>;
+	/**
+	 * Deletes a record. Does nothing if it doesn't exist.
+	 */
+	delete(id: string): Promise<void>;
+}
+
+/**
+ * Storage that keeps records in memory
+ *
+ * Records are cloned on the way in and out, so they behave as if serialized.
+ */
+export class MemoryTuzkStorage implements TuzkStorage {
+	private readonly records: Map<string, TuzkRecord> = new Map();
+
+	public load(): Promise<TuzkRecord[]> {
+		return Promise.resolve([...this.records.values()].map((record) => structuredClone(record)));
+	}
+
+	public save(record: TuzkRecord): Promise<void> {
+		this.records.set(record.id, structuredClone(record));
+		return Promise.resolve();
+	}
+
+	public delete(id: string): Promise<void> {
+		this.records.delete(id);
+		return Promise.resolve();
+	}
+}
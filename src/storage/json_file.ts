@@ -0,0 +1,79 @@
+/**
+ * Storage that keeps persistent task records in a JSON file, using the Deno file system API
+ *
+ * ```ts
+ * import { JsonFileTuzkStorage } from '@leawind/tuzk/storage/json_file';
+ *
+ * const manager = new TuzkManager(4, { storage: new JsonFileTuzkStorage('./tasks.json') });
+ * ```
+ *
+ * @module
+ */
+import type { TuzkRecord, TuzkStorage } from '@/storage.ts';
+
+/**
+ * Storage that keeps records in a JSON file
+ *
+ * The whole file is rewritten on every change, through a temporary file so that it is never left half written.
+ * Snapshots and params must be JSON serializable.
+ */
+export class JsonFileTuzkStorage implements TuzkStorage {
+	/**
+	 * Records read from the file, loaded on first access
+	 */
+	private records?: Map<string, TuzkRecord>;
+
+	/**
+	 * Pending writes, chained so that they happen in order
+	 */
+	private writing: Promise<void> = Promise.resolve();
+
+	public constructor(
+		/** Path of the JSON file */
+		public readonly path: string,
+	) {}
+
+	private async getRecords(): Promise<Map<string, TuzkRecord>> {
+		if (this.records === undefined) {
+			let records: TuzkRecord[] = [];
+			try {
+				records = JSON.parse(await Deno.readTextFile(this.path));
+			} catch (error: unknown) {
+				if (!(error instanceof Deno.errors.NotFound)) {
+					throw error;
+				}
+			}
+			this.records ??= new Map(records.map((record) => [record.id, record]));
+		}
+		return this.records;
+	}
+
+	private write(): Promise<void> {
+		const records = this.records;
+		const write = async () => {
+			const tempPath = `${this.path}.tmp`;
+			await Deno.writeTextFile(tempPath, JSON.stringify([...records!.values()], null, '\t'));
+			await Deno.rename(tempPath, this.path);
+		};
+		this.writing = this.writing.then(write, write);
+		return this.writing;
+	}
+
+	public async load(): Promise<TuzkRecord[]> {
+		const records = await this.getRecords();
+		return [...records.values()].map((record) => structuredClone(record));
+	}
+
+	public async save(record: TuzkRecord): Promise<void> {
+		const records = await this.getRecords();
+		records.set(record.id, JSON.parse(JSON.stringify(record)));
+		await this.write();
+	}
+
+	public async delete(id: string): Promise<void> {
+		const records = await this.getRecords();
+		if (records.delete(id)) {
+			await this.write();
+		}
+	}
+}
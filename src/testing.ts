@@ -0,0 +1,273 @@
+/**
+ * Utilities for testing tasks deterministically, without waiting for real time
+ *
+ * ```ts
+ * import { assertStateSequence, TuzkStepper, VirtualClock } from '@leawind/tuzk/testing';
+ *
+ * const clock = new VirtualClock();
+ * const manager = new TuzkManager(8, { clock });
+ * const task = manager.submit(async (task) => await task.sleep(60_000));
+ *
+ * await clock.runAll(); // Instantly
+ * assertStateSequence(task, ['pending', 'running', 'success']);
+ * ```
+ *
+ * @module
+ */
+import { AssertionError } from '@std/assert';
+import { Deferred } from '@leawind/inventory/deferred';
+import type { TuzkClock } from '@/clock.ts';
+import { TuzkError } from '@/errors.ts';
+import { setCheckpointHold, type Tuzk } from '@/tuzk.ts';
+import { type TuzkEventType, TuzkState } from '@/types.ts';
+
+/**
+ * Lets pending promise callbacks run, including those scheduled by other promise callbacks
+ */
+function flushPromises(): Promise<void> {
+	return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+type VirtualTimer = {
+	id: number;
+	time: number;
+	callback: () => void;
+};
+
+/**
+ * Clock whose time only moves when told to
+ *
+ * Timers fire in order of their due time, then in order of creation.
+ * Between timers, pending promise callbacks are run, so that async code reacts as it would in real time.
+ */
+export class VirtualClock implements TuzkClock {
+	private time: number;
+	private readonly timers: VirtualTimer[] = [];
+	private nextId: number = 1;
+
+	/**
+	 * @param now - Initial time in milliseconds since epoch
+	 */
+	public constructor(now: number = 0) {
+		this.time = now;
+	}
+
+	public now(): number {
+		return this.time;
+	}
+
+	public setTimeout(callback: () => void, delay: number): unknown {
+		const timer = { id: this.nextId++, time: this.time + Math.max(0, delay), callback };
+		const index = this.timers.findIndex((other) => other.time > timer.time);
+		this.timers.splice(index === -1 ? this.timers.length : index, 0, timer);
+		return timer.id;
+	}
+
+	public clearTimeout(handle: unknown): void {
+		const index = this.timers.findIndex((timer) => timer.id === handle);
+		if (index !== -1) {
+			this.timers.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Waits until the clock is advanced by the given time
+	 */
+	public sleep(ms: number): Promise<void> {
+		return new Promise<void>((resolve) => this.setTimeout(resolve, ms));
+	}
+
+	/**
+	 * Number of timers that have not fired yet
+	 */
+	public getTimerCount(): number {
+		return this.timers.length;
+	}
+
+	/**
+	 * Moves time forward, firing timers that become due
+	 * @param ms - Milliseconds to move forward
+	 */
+	public advance(ms: number): Promise<void> {
+		return this.advanceTo(this.time + ms);
+	}
+
+	/**
+	 * Moves time forward to the given time, firing timers that become due
+	 * @param time - Time in milliseconds since epoch. Time never moves backward.
+	 */
+	public async advanceTo(time: number): Promise<void> {
+		await flushPromises();
+		while (this.timers.length > 0 && this.timers[0].time <= time) {
+			const timer = this.timers.shift()!;
+			this.time = Math.max(this.time, timer.time);
+			timer.callback();
+			await flushPromises();
+		}
+		this.time = Math.max(this.time, time);
+	}
+
+	/**
+	 * Fires timers until there are none left, including timers created meanwhile
+	 *
+	 * @param limit - Maximum number of timers to fire
+	 * @throws {TuzkError} If timers keep being created, like by a recurring schedule
+	 */
+	public async runAll(limit: number = 10_000): Promise<void> {
+		await flushPromises();
+		for (let count = 0; this.timers.length > 0; count++) {
+			if (count >= limit) {
+				throw new TuzkError(`Timers are still pending after firing ${limit} timers`);
+			}
+			const timer = this.timers.shift()!;
+			this.time = Math.max(this.time, timer.time);
+			timer.callback();
+			await flushPromises();
+		}
+	}
+}
+
+/**
+ * Runs a task checkpoint by checkpoint
+ *
+ * The task is held at every checkpoint until {@link TuzkStepper.step} lets it continue.
+ * As soon as it starts, it is held at the checkpoint before its runner is called.
+ * Pause and cancel still work while it is held.
+ *
+ * ```ts
+ * const stepper = new TuzkStepper(task);
+ * task.run(); // Held before the runner is called
+ * await stepper.step(); // Held at the first checkpoint of the runner
+ * assertEquals(task.getProgress(), 0.5);
+ * await stepper.finish();
+ * ```
+ */
+export class TuzkStepper {
+	/**
+	 * Checkpoint the task is held at
+	 */
+	private held: Deferred<void> | null = null;
+	/**
+	 * Resolved when the task is held, paused or finished
+	 */
+	private changed: Deferred<void> | null = null;
+	private checkpoints: number = 0;
+
+	public constructor(public readonly task: Tuzk<unknown, string>) {
+		setCheckpointHold(task, () => {
+			const held = new Deferred<void>();
+			this.held = held;
+			this.checkpoints++;
+			this.changed?.resolve();
+			return held;
+		});
+		task.onStateUpdated.addListener(() => {
+			if (task.isFinished()) {
+				// A held checkpoint is rejected when the task is cancelled or timed out
+				this.held = null;
+			}
+			this.changed?.resolve();
+		});
+	}
+
+	/**
+	 * Whether the task is held at a checkpoint
+	 */
+	public isHeld(): boolean {
+		return this.held !== null;
+	}
+
+	/**
+	 * Number of checkpoints the task has been held at
+	 */
+	public getCheckpointCount(): number {
+		return this.checkpoints;
+	}
+
+	/**
+	 * Lets the held task continue, then waits until it is held at the next checkpoint, paused or finished
+	 *
+	 * If the task is not held, it only waits. The task must be started by someone else.
+	 */
+	public async step(): Promise<void> {
+		const held = this.held;
+		if (held !== null) {
+			this.held = null;
+			held.resolve();
+		}
+		while (this.held === null && !this.task.isFinished() && !this.task.stateIs(TuzkState.Paused)) {
+			this.changed = new Deferred<void>();
+			await this.changed;
+			this.changed = null;
+		}
+	}
+
+	/**
+	 * Stops holding the task, and waits for it to finish
+	 *
+	 * The task must not be paused, or be resumed by someone else.
+	 */
+	public async finish(): Promise<void> {
+		setCheckpointHold(this.task, undefined);
+		const held = this.held;
+		this.held = null;
+		held?.resolve();
+		while (!this.task.isFinished()) {
+			this.changed = new Deferred<void>();
+			await this.changed;
+			this.changed = null;
+		}
+	}
+}
+
+const STATE_OF_EVENT: Partial<Record<TuzkEventType, TuzkState>> = {
+	reset: TuzkState.Pending,
+	started: TuzkState.Running,
+	resumed: TuzkState.Running,
+	paused: TuzkState.Paused,
+	succeeded: TuzkState.Success,
+	failed: TuzkState.Failed,
+	cancelled: TuzkState.Cancelled,
+};
+
+/**
+ * Gets the states a task went through, from its history
+ *
+ * It starts with `pending` if the history begins with the `created` event. If earlier events were dropped
+ * because of {@link Tuzk.historyLimit}, it starts with the first state still recorded instead.
+ */
+export function getStateSequence(task: Tuzk<unknown, string>): TuzkState[] {
+	const history = task.getHistory();
+	const states = history[0]?.type === 'created' ? [TuzkState.Pending] : [];
+	for (const event of history) {
+		const state = STATE_OF_EVENT[event.type];
+		if (state !== undefined) {
+			states.push(state);
+		}
+	}
+	return states;
+}
+
+/**
+ * Asserts that a task went through the given states, in order
+ *
+ * ```ts
+ * assertStateSequence(task, ['pending', 'running', 'paused', 'running', 'success']);
+ * ```
+ *
+ * @throws {AssertionError} If the states differ
+ */
+export function assertStateSequence(
+	task: Tuzk<unknown, string>,
+	expected: readonly (TuzkState | `${TuzkState}`)[],
+	message?: string,
+): void {
+	const actual = getStateSequence(task);
+	if (actual.length !== expected.length || actual.some((state, i) => state !== expected[i])) {
+		throw new AssertionError(
+			`${message ?? `Unexpected states of ${task}`}\n` +
+				`  actual:   ${actual.join(' -> ')}\n` +
+				`  expected: ${expected.join(' -> ')}`,
+		);
+	}
+}
@@ -0,0 +1,50 @@
+import { Deferred } from '@leawind/inventory/deferred';
+
+/**
+ * Yields to the event loop, so that timers, I/O and rendering can happen before the returned promise resolves
+ */
+export function yieldToEventLoop(): Promise<void> {
+	return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Round-robin scheduler of time slices, shared by tasks that should take turns
+ *
+ * A task that used up its slice waits in a queue. Waiting tasks are resumed one per macrotask, in queue order,
+ * so the event loop gets a turn between any two slices and no task gets a second slice before the others.
+ *
+ * @see Tuzk.timeSlice
+ * @see TuzkManagerOptions.fairTimeSlicing
+ */
+export class TimeSliceScheduler {
+	private readonly queue: Deferred<void>[] = [];
+	private dispatching: boolean = false;
+
+	/**
+	 * Number of tasks waiting for their next slice
+	 */
+	public getWaitingCount(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Waits for the next slice of the caller
+	 */
+	public yield(): Promise<void> {
+		const turn = new Deferred<void>();
+		this.queue.push(turn);
+		if (!this.dispatching) {
+			this.dispatching = true;
+			this.dispatch();
+		}
+		return turn;
+	}
+
+	private async dispatch(): Promise<void> {
+		while (this.queue.length > 0) {
+			await yieldToEventLoop();
+			this.queue.shift()!.resolve();
+		}
+		this.dispatching = false;
+	}
+}
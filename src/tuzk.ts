@@ -1,8 +1,133 @@
 import { Delegate } from '@leawind/delegate';
 import { Deferred } from '@leawind/inventory/deferred';
 
-import { CancelledError, InvalidStateError, NeverError, TuzkError } from '@/errors.ts';
-import { type BaseActiveTuzk, type TuzkLike, type TuzkRunner, TuzkState } from '@/types.ts';
+import {
+	AggregateTuzkError,
+	CancelledError,
+	InvalidStateError,
+	NeverError,
+	TimeoutError,
+	TuzkError,
+} from '@/errors.ts';
+import { getRetryDelay, type RetryPolicy, shouldRetry } from '@/retry.ts';
+import { AsyncQueue } from '@/async_queue.ts';
+import { systemClock, type TuzkClock } from '@/clock.ts';
+import { ProgressScope } from '@/scope.ts';
+import { type TimeSliceScheduler, yieldToEventLoop } from '@/time_slice.ts';
+import {
+	type ActiveTuzk,
+	type BaseActiveTuzk,
+	type TuzkEvent,
+	type TuzkEventType,
+	type TuzkLike,
+	type TuzkProgressNode,
+	type TuzkProgressScope,
+	type TuzkRunner,
+	type TuzkRunRecord,
+	type TuzkSettledResult,
+	TuzkState,
+} from '@/types.ts';
+
+/**
+ * Options for constructing a {@link Tuzk}
+ */
+export type TuzkOptions = {
+	/**
+	 * @see Tuzk.id
+	 */
+	id?: string;
+	/**
+	 * @see Tuzk.name
+	 */
+	name?: string;
+	/**
+	 * @see Tuzk.tags
+	 */
+	tags?: Iterable<string>;
+	/**
+	 * @see Tuzk.metadata
+	 */
+	metadata?: Record<string, unknown>;
+	/**
+	 * Retry policy of the task
+	 * @see Tuzk.retryPolicy
+	 */
+	retryPolicy?: RetryPolicy;
+	/**
+	 * @see Tuzk.timeout
+	 */
+	timeout?: number;
+	/**
+	 * @see Tuzk.deadline
+	 */
+	deadline?: number;
+	/**
+	 * @see Tuzk.excludePausedTime
+	 */
+	excludePausedTime?: boolean;
+	/**
+	 * External signal that cancels the task when aborted
+	 */
+	signal?: AbortSignal;
+	/**
+	 * Snapshot to resume from, usually restored from a storage
+	 * @see Tuzk.getSnapshot
+	 */
+	snapshot?: unknown;
+	/**
+	 * Maximum number of events kept in history
+	 * @default 64
+	 * @see Tuzk.getHistory
+	 */
+	historyLimit?: number;
+	/**
+	 * @see Tuzk.rateWindow
+	 */
+	rateWindow?: number;
+	/**
+	 * @see Tuzk.total
+	 */
+	total?: number;
+	/**
+	 * Maximum number of run records kept
+	 * @default 16
+	 * @see Tuzk.getRuns
+	 */
+	runHistoryLimit?: number;
+	/**
+	 * @see Tuzk.clock
+	 */
+	clock?: TuzkClock;
+	/**
+	 * @see Tuzk.timeSlice
+	 */
+	timeSlice?: number;
+	/**
+	 * @see Tuzk.sliceScheduler
+	 */
+	sliceScheduler?: TimeSliceScheduler;
+};
+
+/**
+ * Hooks that hold tasks at checkpoints, keyed by task
+ */
+const checkpointHolds: WeakMap<object, () => Deferred<void>> = new WeakMap();
+
+/**
+ * Holds the task at every checkpoint, until the deferred returned by the hook is resolved
+ *
+ * Internal to `TuzkStepper` of the testing module, and not exported from the package entry.
+ *
+ * @internal
+ * @param hook - Called at every checkpoint, or `undefined` to stop holding
+ */
+export function setCheckpointHold(task: Tuzk<unknown, string>, hook: (() => Deferred<void>) | undefined): void {
+	if (hook === undefined) {
+		checkpointHolds.delete(task);
+	} else {
+		checkpointHolds.set(task, hook);
+	}
+}
 
 /**
  * Tuzk is task that can be runed, paused, resumed, cancelled.
@@ -41,113 +166,817 @@ import { type BaseActiveTuzk, type TuzkLike, type TuzkRunner, TuzkState } from '
  * @template R Result type
  * @template ActiveKeys Fields and methods that can be accessed in runner while it's active
  */
-export class Tuzk<R, ActiveKeys extends string = never> implements BaseActiveTuzk {
+export class Tuzk<R, ActiveKeys extends string = never>
+	implements BaseActiveTuzk, PromiseLike<R>, AsyncIterable<TuzkEvent, void, undefined> {
 	#_ActiveKeysTypeHolder!: ActiveKeys;
 
-	private readonly runner: TuzkRunner<Tuzk<R>>;
+	private readonly runner: TuzkRunner<Tuzk<R>>;
+
+	/**
+	 * Identifier of the task. A manager doesn't accept two tasks with the same id.
+	 * @default A random UUID
+	 */
+	public readonly id: string;
+
+	/**
+	 * Human readable name of the task
+	 */
+	public name?: string;
+
+	/**
+	 * Tags for grouping and finding tasks
+	 * @see TuzkManager.getTasks
+	 */
+	public readonly tags: Set<string>;
+
+	/**
+	 * User data attached to the task
+	 */
+	public metadata: Record<string, unknown>;
+
+	/**
+	 * Progress of the task. Range: [0.0, 1.0]
+	 */
+	private progress: number = 0;
+
+	/**
+	 * Total amount of work in absolute units, like bytes. If set, progress can be reported by {@link Tuzk.setUnits}.
+	 */
+	public total?: number;
+
+	/**
+	 * Length in milliseconds of active time over which {@link Tuzk.getRate} is averaged
+	 * @default 5000
+	 */
+	public rateWindow: number;
+
+	/**
+	 * Progress at points of active time, used to estimate the rate. Oldest first.
+	 */
+	private rateSamples: { time: number; progress: number }[] = [];
+
+	/**
+	 * When the current run started and finished, in milliseconds since epoch
+	 */
+	private startedAt?: number;
+	private finishedAt?: number;
+
+	/**
+	 * Time spent running in current run, excluding the time being counted now
+	 */
+	private activeTime: number = 0;
+
+	/**
+	 * When the task started running since last pause, or `null` if it is not running
+	 */
+	private activeSince: number | null = null;
+
+	/**
+	 * Whether this task should be paused.
+	 */
+	private shouldPause: boolean = false;
+
+	/**
+	 * Whether this task should be cancelled.
+	 */
+	private shouldCancel: boolean = false;
+
+	/**
+	 * The error to throw when this task is really cancelled.
+	 */
+	private cancelReason: CancelledError | null = null;
+
+	/**
+	 * Why this task should be paused, recorded when it is really paused.
+	 */
+	private pauseCause?: unknown;
+
+	/**
+	 * If this task was failed, this will be set.
+	 */
+	public error?: unknown;
+
+	/**
+	 * If set, a failed attempt of the runner is retried according to this policy.
+	 *
+	 * Between attempts, the task stays in running state and can still be paused or cancelled.
+	 */
+	public retryPolicy?: RetryPolicy;
+
+	/**
+	 * Number of the current attempt, starting from 1. It is 0 if the task has never run.
+	 */
+	private attempt: number = 0;
+
+	/**
+	 * Maximum duration of a run in milliseconds, counted from {@link Tuzk.run}.
+	 *
+	 * When it runs out, the task fails with {@link TimeoutError} at its next checkpoint.
+	 */
+	public timeout?: number;
+
+	/**
+	 * Absolute time in milliseconds since epoch (like {@link Date.now}) before which the task must finish.
+	 *
+	 * When it passes, the task fails with {@link TimeoutError} at its next checkpoint.
+	 */
+	public deadline?: number;
+
+	/**
+	 * Whether time spent paused doesn't count toward {@link Tuzk.timeout}.
+	 *
+	 * It doesn't affect {@link Tuzk.deadline}.
+	 */
+	public excludePausedTime: boolean = false;
+
+	/**
+	 * Whether the timeout or deadline has passed in current run.
+	 */
+	private timedOut: boolean = false;
+
+	/**
+	 * Remaining milliseconds of {@link Tuzk.timeout} in current run, excluding the time being counted now.
+	 */
+	private timeoutBudget: number = Infinity;
+
+	/**
+	 * When the timeout started being counted, or `null` if it is not counted now.
+	 */
+	private timeoutCountedSince: number | null = null;
+
+	private timeoutTimerId?: unknown;
+
+	/**
+	 * Source of time used by timeouts, retries, {@link Tuzk.sleep} and timing statistics.
+	 *
+	 * If not set, a manager sets it to its own clock when the task is submitted.
+	 *
+	 * @default {@link systemClock}
+	 */
+	public clock?: TuzkClock;
+
+	/**
+	 * Milliseconds the runner may run between yields to the event loop.
+	 *
+	 * When the runner has used its slice, the next {@link Tuzk.checkpoint} yields via a macrotask,
+	 * so that a CPU-heavy runner doesn't starve timers, I/O, rendering and other tasks.
+	 * It's measured in real time, regardless of {@link Tuzk.clock}.
+	 *
+	 * If not set, checkpoints only yield when the task is paused.
+	 */
+	public timeSlice?: number;
+
+	/**
+	 * Scheduler that decides when the task gets its next slice after yielding.
+	 *
+	 * Tasks sharing a scheduler take turns in round-robin order. If not set, the task yields on its own.
+	 */
+	public sliceScheduler?: TimeSliceScheduler;
+
+	/**
+	 * When the current time slice started, see {@link Tuzk.timeSlice}
+	 */
+	private sliceStartedAt: number = 0;
+
+	/**
+	 * External signal that cancels the task when aborted.
+	 */
+	private readonly externalSignal?: AbortSignal;
+
+	/**
+	 * Controls {@link Tuzk.signal}. It's recreated on every run.
+	 */
+	private abortController: AbortController = new AbortController();
+
+	private state: TuzkState = TuzkState.Pending;
+
+	private result?: R;
+
+	/**
+	 * Number of runs started
+	 */
+	private runCount: number = 0;
+
+	/**
+	 * Records of finished runs, oldest first
+	 */
+	private readonly runs: TuzkRunRecord<R>[] = [];
+
+	/**
+	 * Maximum number of records kept in {@link runs}
+	 */
+	public runHistoryLimit: number;
+
+	/**
+	 * Settled when the current run finishes. Created when the task is awaited.
+	 */
+	private completion: Deferred<unknown> | null = null;
+
+	/**
+	 * Serializable state written by the runner, from which the task can be resumed.
+	 */
+	private snapshot?: unknown;
+
+	// Delegates
+	public readonly onProgressUpdated: Delegate<number> = new Delegate();
+	public readonly onStateUpdated: Delegate<[oldState: TuzkState, newState: TuzkState]> = new Delegate();
+	/**
+	 * Broadcasted when a failed attempt is going to be retried after `delay` milliseconds
+	 */
+	public readonly onRetrying: Delegate<[attempt: number, error: unknown, delay: number]> = new Delegate();
+	/**
+	 * Broadcasted when the runner writes a new snapshot
+	 */
+	public readonly onSnapshotUpdated: Delegate<unknown> = new Delegate();
+	/**
+	 * Stream of everything that happens to this task, in order
+	 * @see TuzkEventType
+	 */
+	public readonly onEvent: Delegate<TuzkEvent> = new Delegate();
+
+	/**
+	 * Recent events except `progress`, oldest first
+	 */
+	private readonly history: TuzkEvent[] = [];
+
+	/**
+	 * Maximum number of events kept in {@link history}
+	 */
+	public historyLimit: number;
+
+	public constructor(runner: TuzkRunner<Tuzk<R>>, options: TuzkOptions = {}) {
+		this.runner = runner;
+		this.id = options.id ?? crypto.randomUUID();
+		this.name = options.name;
+		this.tags = new Set(options.tags);
+		this.metadata = options.metadata ?? {};
+		this.retryPolicy = options.retryPolicy;
+		this.timeout = options.timeout;
+		this.deadline = options.deadline;
+		this.excludePausedTime = options.excludePausedTime ?? false;
+		this.externalSignal = options.signal;
+		this.snapshot = options.snapshot;
+		this.historyLimit = options.historyLimit ?? 64;
+		this.rateWindow = options.rateWindow ?? 5000;
+		this.total = options.total;
+		this.runHistoryLimit = options.runHistoryLimit ?? 16;
+		this.clock = options.clock;
+		this.timeSlice = options.timeSlice;
+		this.sliceScheduler = options.sliceScheduler;
+
+		this.onEvent.addListener((e) => {
+			if (e.data.type === 'progress') {
+				return;
+			}
+			this.history.push(e.data);
+			if (this.history.length > this.historyLimit) {
+				this.history.splice(0, this.history.length - this.historyLimit);
+			}
+		});
+		this.emitEvent('created');
+	}
+
+	/**
+	 * Broadcasts an event of this task on {@link onEvent}
+	 *
+	 * Events are emitted by the task itself, except `queued` which is emitted by managers.
+	 *
+	 * @param type Kind of the event
+	 * @param cause Why it happened
+	 */
+	public emitEvent(type: TuzkEventType, cause?: unknown): void {
+		this.onEvent.broadcast({
+			type,
+			task: this,
+			timestamp: this.getClock().now(),
+			cause,
+			progress: this.progress,
+			attempt: this.attempt,
+		});
+	}
+
+	/**
+	 * Get recent state transitions of this task, oldest first.
+	 *
+	 * It includes all events except `progress`, up to {@link historyLimit} events.
+	 */
+	public getHistory(): readonly TuzkEvent[] {
+		return this.history;
+	}
+
+	private getClock(): TuzkClock {
+		return this.clock ?? systemClock;
+	}
+
+	/**
+	 * Describes the task by its name and id
+	 */
+	public toString(): string {
+		return this.name === undefined ? `Tuzk(${this.id})` : `Tuzk(${this.name}, ${this.id})`;
+	}
+
+	/**
+	 * Accumulates active time when the task stops or starts running, and resets timing when a run starts
+	 */
+	private updateActiveTime(oldState: TuzkState, newState: TuzkState): void {
+		const now = this.getClock().now();
+		if (oldState === TuzkState.Running && this.activeSince !== null) {
+			this.activeTime += now - this.activeSince;
+			this.activeSince = null;
+		}
+		if (newState === TuzkState.Running) {
+			if (oldState !== TuzkState.Paused) {
+				this.startedAt = now;
+				this.finishedAt = undefined;
+				this.activeTime = 0;
+				this.rateSamples = [{ time: 0, progress: this.progress }];
+			}
+			this.activeSince = now;
+			this.sliceStartedAt = performance.now();
+		}
+		if (this.isFinished()) {
+			this.finishedAt = now;
+		}
+	}
+
+	private addRateSample(): void {
+		const sample = { time: this.getActiveTime(), progress: this.progress };
+		const last = this.rateSamples.at(-1);
+		if (last === undefined || sample.progress < last.progress) {
+			// Progress went back, like when retrying
+			this.rateSamples = [sample];
+			return;
+		}
+		this.rateSamples.push(sample);
+		// Keep one sample before the window as baseline
+		const windowStart = sample.time - this.rateWindow;
+		while (this.rateSamples.length > 2 && this.rateSamples[1].time <= windowStart) {
+			this.rateSamples.shift();
+		}
+	}
+
+	/**
+	 * Get milliseconds since the current run started, including paused time.
+	 *
+	 * If finished, it's the duration of the last run. It's 0 if the task never ran.
+	 */
+	public getElapsedTime(): number {
+		if (this.startedAt === undefined) {
+			return 0;
+		}
+		return (this.finishedAt ?? this.getClock().now()) - this.startedAt;
+	}
+
+	/**
+	 * Get milliseconds spent running in the current run, excluding paused time.
+	 */
+	public getActiveTime(): number {
+		return this.activeTime + (this.activeSince === null ? 0 : this.getClock().now() - this.activeSince);
+	}
+
+	/**
+	 * Estimate progress per second, averaged over the last {@link rateWindow} of active time.
+	 *
+	 * @returns The rate, or 0 if it can't be estimated yet.
+	 */
+	public getRate(): number {
+		const first = this.rateSamples[0];
+		if (first === undefined || !this.isActive()) {
+			return 0;
+		}
+		const duration = this.getActiveTime() - first.time;
+		if (duration <= 0) {
+			return 0;
+		}
+		return (this.progress - first.progress) / duration * 1000;
+	}
+
+	/**
+	 * Estimate units of work per second, based on {@link getRate} and {@link total}.
+	 *
+	 * @returns The rate, or `undefined` if total is not set.
+	 */
+	public getUnitRate(): number | undefined {
+		return this.total === undefined ? undefined : this.getRate() * this.total;
+	}
+
+	/**
+	 * Get finished units of work, based on progress and {@link total}.
+	 *
+	 * @returns The units, or `undefined` if total is not set.
+	 */
+	public getDoneUnits(): number | undefined {
+		return this.total === undefined ? undefined : this.progress * this.total;
+	}
+
+	/**
+	 * Estimate milliseconds of active time until the task finishes.
+	 *
+	 * @returns The ETA, 0 if finished, or `undefined` if it can't be estimated.
+	 */
+	public getEta(): number | undefined {
+		if (this.isFinished()) {
+			return 0;
+		}
+		const rate = this.getRate();
+		if (rate <= 0) {
+			return undefined;
+		}
+		return (1 - this.progress) / rate * 1000;
+	}
+
+	/**
+	 * Get progress of the task.
+	 */
+	public getProgress(): number {
+		return this.progress;
+	}
+
+	/**
+	 * Get state and progress of this task and all its subtasks, recursively.
+	 *
+	 * It can be used to render a nested task as an expandable progress tree.
+	 */
+	public getProgressTree(): TuzkProgressNode {
+		return {
+			task: this,
+			state: this.state,
+			progress: this.progress,
+			weight: 1,
+			children: [],
+		};
+	}
+
+	/**
+	 * Get the current state of the task.
+	 *
+	 * @returns The current state of the task.
+	 */
+	public getState(): TuzkState {
+		return this.state;
+	}
+
+	/**
+	 * @param cause Why the state changes, recorded in the event
+	 */
+	protected setState(state: TuzkState, cause?: unknown): void {
+		if (this.state === state) {
+			return;
+		}
+		const oldState = this.state;
+		this.state = state;
+		this.updateActiveTime(oldState, state);
+
+		// Bookkeeping comes before listeners, which may already start a new run
+		if (this.isFinished() && oldState !== TuzkState.Pending) {
+			this.runs.push({
+				run: this.runCount,
+				state: state as TuzkRunRecord<R>['state'],
+				result: this.result,
+				error: state === TuzkState.Success ? undefined : cause,
+				startedAt: this.startedAt!,
+				finishedAt: this.finishedAt!,
+				activeTime: this.activeTime,
+				attempts: this.attempt,
+			});
+			if (this.runs.length > this.runHistoryLimit) {
+				this.runs.splice(0, this.runs.length - this.runHistoryLimit);
+			}
+		}
+
+		if (this.completion !== null && this.isFinished()) {
+			const completion = this.completion;
+			this.completion = null;
+			if (state === TuzkState.Success) {
+				completion.resolve(this.result);
+			} else {
+				completion.reject(cause);
+			}
+		}
+
+		switch (state) {
+			case TuzkState.Pending:
+				this.emitEvent('reset', cause);
+				break;
+			case TuzkState.Running:
+				this.emitEvent(oldState === TuzkState.Paused ? 'resumed' : 'started', cause);
+				break;
+			case TuzkState.Paused:
+				this.emitEvent('paused', cause);
+				break;
+			case TuzkState.Success:
+				this.emitEvent('succeeded', cause);
+				break;
+			case TuzkState.Failed:
+				this.emitEvent('failed', cause);
+				break;
+			case TuzkState.Cancelled:
+				this.emitEvent('cancelled', cause);
+				break;
+		}
+
+		this.onStateUpdated.broadcast([oldState, state]);
+	}
+
+	/**
+	 * Start to run this task.
+	 *
+	 * @throws {InvalidStateError} If the task is active
+	 * @throws {CancelledError} If the task is cancelled.
+	 * @throws {TimeoutError} If the task runs out of its timeout or passes its deadline.
+	 * @throws {unknown} If the given {@link Tuzk.runner} throws any error, and it is not retried.
+	 *
+	 * @param signal External signal that cancels this run when aborted.
+	 * @returns A promise that resolves when the task is finished.
+	 */
+	public run(signal?: AbortSignal): Promise<R> {
+		const promise = (async () => {
+			if (this.isActive()) {
+				throw new InvalidStateError(this.state, 'pending or finished', 'run');
+			}
+			if (this.isFinished()) {
+				this.reset();
+			}
+			this.runCount++;
+
+			let failed = false;
+			const externalSignals = [this.externalSignal, signal].filter((s) => s !== undefined);
+			const onExternalAbort = () => {
+				if (this.isActive()) {
+					this.cancel();
+				}
+			};
+
+			try {
+				this.abortController = new AbortController();
+				this.shouldCancel = false;
+				this.cancelReason = null;
+				this.timedOut = false;
+				this.timeoutBudget = this.timeout ?? Infinity;
+				this.startTimeoutTimer(true);
+
+				this.setState(TuzkState.Running);
+
+				for (const externalSignal of externalSignals) {
+					if (externalSignal.aborted) {
+						this.cancel();
+					}
+					externalSignal.addEventListener('abort', onExternalAbort);
+				}
+
+				this.attempt = 0;
+				for (;;) {
+					this.attempt++;
+					try {
+						// Wait for runner to finish
+						await this.checkpoint(0);
+						this.result = await this.runner(this);
+						break;
+					} catch (error: unknown) {
+						if (this.retryPolicy === undefined || !shouldRetry(this.retryPolicy, error, this.attempt)) {
+							throw error;
+						}
+						const delay = getRetryDelay(this.retryPolicy, this.attempt);
+						this.onRetrying.broadcast([this.attempt, error, delay]);
+						this.emitEvent('retried', error);
+						await this.backoff(delay);
+					}
+				}
+				this.setProgress(1);
+			} catch (error: unknown) {
+				this.error = error;
+				failed = true;
+			} finally {
+				// Clean up before finishing, because listeners of the final state may start a new run
+				for (const externalSignal of externalSignals) {
+					externalSignal.removeEventListener('abort', onExternalAbort);
+				}
+				this.stopTimeoutTimer();
+				this.shouldCancel = false;
+				this.cancelReason = null;
+				this.shouldPause = false;
+				this.pauseCause = undefined;
+			}
+
+			if (failed) {
+				const error = this.error;
+				this.setState(error instanceof CancelledError ? TuzkState.Cancelled : TuzkState.Failed, error);
+				throw error;
+			}
+			const result = this.result as R;
+			this.setState(TuzkState.Success);
+			return result;
+		})();
+		return promise;
+	}
+
+	/**
+	 * Pending waits of {@link backoff}, several if the runner sleeps concurrently
+	 */
+	private readonly backoffDeferreds: Set<Deferred<void>> = new Set();
+
+	/**
+	 * Wait before the next attempt. Rejects with {@link CancelledError} if the task is cancelled meanwhile.
+	 */
+	private async backoff(ms: number): Promise<void> {
+		const clock = this.getClock();
+		const deferred = new Deferred<void>();
+		this.backoffDeferreds.add(deferred);
+		const timeoutId = clock.setTimeout(() => deferred.resolve(), ms);
+		try {
+			await deferred;
+		} finally {
+			clock.clearTimeout(timeoutId);
+			this.backoffDeferreds.delete(deferred);
+		}
+	}
+
+	/**
+	 * Rejects all pending waits of {@link backoff}
+	 */
+	private rejectBackoffs(reason: unknown): void {
+		for (const deferred of this.backoffDeferreds) {
+			deferred.reject(reason);
+		}
+	}
+
+	public sleep(ms: number): Promise<void> {
+		if (!this.isActive()) {
+			throw new InvalidStateError(this.state, 'active', 'sleep');
+		}
+		if (this.shouldCancel) {
+			return Promise.reject(this.cancelReason ?? new CancelledError());
+		}
+		if (this.timedOut) {
+			return Promise.reject(new TimeoutError());
+		}
+		return this.backoff(ms);
+	}
+
+	/**
+	 * Start the timer that marks this task as timed out.
+	 *
+	 * @param countTimeout Whether to count {@link Tuzk.timeout}. If not, only {@link Tuzk.deadline} is considered.
+	 */
+	private startTimeoutTimer(countTimeout: boolean): void {
+		this.stopTimeoutTimer();
+
+		const now = this.getClock().now();
+		let delay = Infinity;
+		if (countTimeout) {
+			this.timeoutCountedSince = now;
+			delay = this.timeoutBudget;
+		}
+		if (this.deadline !== undefined) {
+			delay = Math.min(delay, this.deadline - now);
+		}
+		if (delay === Infinity) {
+			return;
+		}
+
+		this.timeoutTimerId = this.getClock().setTimeout(() => {
+			this.timeoutTimerId = undefined;
+			this.timedOut = true;
+			this.abortController.abort(new TimeoutError());
+			this.checkpointDeferred?.reject(new TimeoutError());
+			this.rejectBackoffs(new TimeoutError());
+		}, Math.max(0, delay));
+	}
 
 	/**
-	 * Progress of the task. Range: [0.0, 1.0]
+	 * Stop the timeout timer, and deduct the counted time from the remaining timeout.
 	 */
-	private progress: number = 0;
+	private stopTimeoutTimer(): void {
+		if (this.timeoutCountedSince !== null) {
+			this.timeoutBudget -= this.getClock().now() - this.timeoutCountedSince;
+			this.timeoutCountedSince = null;
+		}
+		this.getClock().clearTimeout(this.timeoutTimerId);
+		this.timeoutTimerId = undefined;
+	}
 
 	/**
-	 * Whether this task should be paused.
+	 * Get the result of the task.
+	 *
+	 * @returns The result of the task, or `undefined` if the task has not finished yet.
 	 */
-	private shouldPause: boolean = false;
+	public getResult(): R | undefined {
+		return this.result;
+	}
 
 	/**
-	 * Whether this task should be cancelled.
+	 * Reset a finished task back to pending, so that it can run again.
+	 *
+	 * Progress, result, error, snapshot and timings of the last run are cleared.
+	 * The last run is still recorded in {@link getRuns}.
+	 *
+	 * It's done automatically when a finished task is run again. It does nothing if the task is pending.
+	 *
+	 * @throws {InvalidStateError} If the task is active.
 	 */
-	private shouldCancel: boolean = false;
+	public reset(): void {
+		if (this.isActive()) {
+			throw new InvalidStateError(this.state, 'pending or finished', 'reset');
+		}
+		if (this.stateIs(TuzkState.Pending)) {
+			return;
+		}
+		this.result = undefined;
+		this.error = undefined;
+		this.snapshot = undefined;
+		this.attempt = 0;
+		this.startedAt = undefined;
+		this.finishedAt = undefined;
+		this.activeTime = 0;
+		this.rateSamples = [];
+		this.shouldCancel = false;
+		this.cancelReason = null;
+		this.abortController = new AbortController();
+		this.setProgress(0);
+		this.setState(TuzkState.Pending);
+	}
 
 	/**
-	 * If this task was failed, this will be set.
+	 * Get the number of runs started, including the current one.
 	 */
-	public error?: unknown;
-
-	private state: TuzkState = TuzkState.Pending;
-
-	private result?: R;
-
-	// Delegates
-	public readonly onProgressUpdated: Delegate<number> = new Delegate();
-	public readonly onStateUpdated: Delegate<[oldState: TuzkState, newState: TuzkState]> = new Delegate();
-
-	public constructor(runner: TuzkRunner<Tuzk<R>>) {
-		this.runner = runner;
+	public getRunCount(): number {
+		return this.runCount;
 	}
 
 	/**
-	 * Get progress of the task.
+	 * Get records of recent finished runs, oldest first, up to {@link runHistoryLimit} runs.
 	 */
-	public getProgress(): number {
-		return this.progress;
+	public getRuns(): readonly TuzkRunRecord<R>[] {
+		return this.runs;
 	}
 
 	/**
-	 * Get the current state of the task.
+	 * Makes the task awaitable. It doesn't start the task.
 	 *
-	 * @returns The current state of the task.
+	 * ```ts
+	 * task.run();
+	 * const result = await task;
+	 * ```
+	 *
+	 * It resolves with the result when the task succeeds, and rejects with the error when it fails or is cancelled.
+	 * If the task is already finished, it settles with the outcome of the last run.
+	 *
+	 * **If the task never runs, it never settles.** Because tasks are thenable, this also applies to
+	 * `Promise.resolve(task)` and to returning a task from an async function, which wait for the task to finish.
+	 * A task that is never started, or removed from its manager by `TuzkManager.remove`, hangs them forever.
+	 * To pass a pending task through a promise, wrap it, like `{ task }`.
 	 */
-	public getState(): TuzkState {
-		return this.state;
-	}
-
-	protected setState(state: TuzkState): void {
-		if (this.state === state) {
-			return;
+	public then<T1 = R, T2 = never>(
+		onfulfilled?: ((value: R) => T1 | PromiseLike<T1>) | null,
+		onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null,
+	): Promise<T1 | T2> {
+		let promise: Promise<R>;
+		if (this.stateIs(TuzkState.Success)) {
+			promise = Promise.resolve(this.result as R);
+		} else if (this.isFinished()) {
+			promise = Promise.reject(this.error);
+		} else {
+			promise = (this.completion ??= new Deferred()) as Promise<R>;
 		}
-		const oldState = this.state;
-		this.state = state;
-		this.onStateUpdated.broadcast([oldState, this.state]);
+		return promise.then(onfulfilled, onrejected);
 	}
 
 	/**
-	 * Start to run this task.
+	 * Iterates over events of this task as they happen, until it finishes.
 	 *
-	 * @throws {InvalidStateError} If the task is active
-	 * @throws {CancelledError} If the task is cancelled.
-	 * @throws {unknown} If the given {@link Tuzk.runner} throws any error.
+	 * The last event is `succeeded`, `failed` or `cancelled`. Nothing is yielded if the task is already finished.
 	 *
-	 * @returns A promise that resolves when the task is finished.
+	 * ```ts
+	 * for await (const event of task.events()) {
+	 *   console.log(event.type, event.progress);
+	 * }
+	 * ```
 	 */
-	public run(): Promise<R> {
-		const promise = (async () => {
-			if (this.isActive()) {
-				throw new InvalidStateError(this.state, 'pending or finished', 'run');
+	public events(): AsyncIterableIterator<TuzkEvent, void, undefined> {
+		const queue = new AsyncQueue<TuzkEvent>();
+		if (this.isFinished()) {
+			queue.close();
+			return queue;
+		}
+		this.onEvent.addListener((e) => {
+			if (queue.isClosed()) {
+				e.removeSelf();
+				return;
 			}
-
-			try {
-				this.setState(TuzkState.Running);
-
-				// Wait for runner to finish
-				await this.checkpoint(0);
-				this.result = await this.runner(this);
-				this.setProgress(1);
-
-				this.setState(TuzkState.Success);
-
-				return this.result;
-			} catch (error: unknown) {
-				this.error = error;
-				this.setState(error instanceof CancelledError ? TuzkState.Cancelled : TuzkState.Failed);
-				throw error;
-			} finally {
-				this.shouldCancel = false;
-				this.shouldPause = false;
+			queue.push(e.data);
+			if (e.data.type === 'succeeded' || e.data.type === 'failed' || e.data.type === 'cancelled') {
+				e.removeSelf();
+				queue.close();
 			}
-		})();
-		return promise;
+		});
+		return queue;
 	}
 
 	/**
-	 * Get the result of the task.
-	 *
-	 * @returns The result of the task, or `undefined` if the task has not finished yet.
+	 * Same as {@link events}
 	 */
-	public getResult(): R | undefined {
-		return this.result;
+	public [Symbol.asyncIterator](): AsyncIterableIterator<TuzkEvent, void, undefined> {
+		return this.events();
 	}
 
 	/////////////////////////////////////////////////////////////////
@@ -160,12 +989,38 @@ export class Tuzk<R, ActiveKeys extends string = never> implements BaseActiveTuz
 			return;
 		}
 		this.progress = progress;
+		this.addRateSample();
 		this.onProgressUpdated.broadcast(this.progress);
+		this.emitEvent('progress');
+	}
+
+	public scope(start: number, end: number): TuzkProgressScope {
+		return new ProgressScope(this, start, end);
+	}
+
+	public setUnits(done: number, total: number | undefined = this.total): void {
+		if (total === undefined || total <= 0) {
+			throw new TuzkError('Total units must be set and positive');
+		}
+		if (done < 0 || done > total) {
+			throw new TuzkError(`Done units must be in range [0, ${total}]`);
+		}
+		this.total = total;
+		this.setProgress(done / total);
+	}
+
+	public getSnapshot(): unknown {
+		return this.snapshot;
+	}
+
+	public setSnapshot(snapshot: unknown): void {
+		this.snapshot = snapshot;
+		this.onSnapshotUpdated.broadcast(snapshot);
 	}
 
 	private checkpointDeferred: Deferred<void> | null = null;
 
-	public checkpoint(progress?: number): Promise<void> {
+	public checkpoint(progress?: number, snapshot?: unknown): Promise<void> {
 		if (!this.stateIs(TuzkState.Running)) {
 			throw new InvalidStateError(this.state, 'active', 'invoke checkpoint()');
 		}
@@ -174,29 +1029,68 @@ export class Tuzk<R, ActiveKeys extends string = never> implements BaseActiveTuz
 			this.setProgress(progress);
 		}
 
+		if (snapshot !== undefined) {
+			this.setSnapshot(snapshot);
+		}
+
+		return this.control(true);
+	}
+
+	/**
+	 * Cancel, fail, pause or hold the task if marked so, otherwise continue.
+	 *
+	 * @param canYield Whether to yield if the time slice is used up.
+	 */
+	private control(canYield: boolean): Promise<void> {
 		if (this.shouldCancel) {
-			this.setState(TuzkState.Cancelled);
-			throw new CancelledError();
+			throw this.cancelReason ?? new CancelledError();
+		}
+
+		if (this.timedOut) {
+			throw new TimeoutError();
 		}
 
 		if (this.shouldPause) {
-			this.setState(TuzkState.Paused);
+			this.setState(TuzkState.Paused, this.pauseCause);
 			this.checkpointDeferred = new Deferred();
+			if (this.excludePausedTime) {
+				this.startTimeoutTimer(false);
+			}
 			return this.checkpointDeferred;
 		}
 
+		const hold = checkpointHolds.get(this)?.();
+		if (hold !== undefined) {
+			this.checkpointDeferred = hold;
+			return hold;
+		}
+
 		this.checkpointDeferred = null;
+
+		if (canYield && this.timeSlice !== undefined && performance.now() - this.sliceStartedAt >= this.timeSlice) {
+			return this.yieldSlice();
+		}
 		return Promise.resolve();
 	}
 
-	public pause(): void {
+	/**
+	 * Yield to the event loop when the time slice is used up, then check again for pause and cancel.
+	 */
+	private async yieldSlice(): Promise<void> {
+		await (this.sliceScheduler?.yield() ?? yieldToEventLoop());
+		this.sliceStartedAt = performance.now();
+		await this.control(false);
+	}
+
+	public pause(cause?: unknown): void {
 		if (!this.isActive()) {
 			throw new InvalidStateError(this.state, 'active', 'pause');
 		}
 		this.shouldPause = true;
+		this.pauseCause = cause;
 	}
 
-	public resume(): void {
+	public resume(cause?: unknown): void {
 		if (!this.isActive()) {
 			throw new InvalidStateError(this.state, 'active', 'resume');
 		}
@@ -213,19 +1107,29 @@ export class Tuzk<R, ActiveKeys extends string = never> implements BaseActiveTuz
 
 		this.checkpointDeferred.resolve();
 		this.checkpointDeferred = null;
-		this.setState(TuzkState.Running);
+		if (this.excludePausedTime) {
+			this.startTimeoutTimer(true);
+		}
+		this.setState(TuzkState.Running, cause);
 	}
 
-	public cancel(): void {
+	public cancel(reason: CancelledError = new CancelledError()): void {
 		switch (this.state) {
+			case TuzkState.Pending:
+				this.error = reason;
+				this.setState(TuzkState.Cancelled, reason);
+				break;
 			case TuzkState.Running:
 			case TuzkState.Paused:
-			case TuzkState.Cancelled:
 				this.shouldCancel = true;
-				this.checkpointDeferred?.reject(new CancelledError());
+				this.cancelReason ??= reason;
+				this.abortController.abort(reason);
+				this.checkpointDeferred?.reject(reason);
+				this.rejectBackoffs(reason);
 				break;
 			default:
-				throw new InvalidStateError(this.state, 'active or cancelled', 'cancel');
+				// Already finished
+				break;
 		}
 	}
 
@@ -236,6 +1140,14 @@ export class Tuzk<R, ActiveKeys extends string = never> implements BaseActiveTuz
 	public isMarkedAsCancelled(): boolean {
 		return this.shouldCancel;
 	}
+
+	public getAttempt(): number {
+		return this.attempt;
+	}
+
+	public get signal(): AbortSignal {
+		return this.abortController.signal;
+	}
 	/////////////////////////////////////////////////////////////////
 	// State check
 	/////////////////////////////////////////////////////////////////
@@ -294,32 +1206,254 @@ export class Tuzk<R, ActiveKeys extends string = never> implements BaseActiveTuz
 	/**
 	 * Create a Tuzk task that runs multiple tasks in parallel and resolves when all tasks are finished.
 	 *
+	 * Child tasks start when the returned task runs. If a child task fails, the rest are handled according to
+	 * {@link CompositeTuzkOptions.failureMode}.
+	 *
 	 * @param tasks An array of Tuzk instances or TuzkRunner functions.
+	 * @param options Options of the composite task.
 	 * @returns A Tuzk instance that resolves with an array of results from all tasks.
 	 */
-	public static all<R>(tasks: TuzkLike<R>[]): Tuzk<R[]> {
+	public static all<R>(tasks: TuzkLike<R>[], options: CompositeTuzkOptions = {}): CompositeTuzk<R[], R> {
 		const tuzks: Tuzk<R>[] = tasks.map((runner) => Tuzk.from(runner));
-		const promises: Promise<R>[] = tuzks.map((task) => task.run());
 
-		return new CompositeTuzk<R[], R>(tuzks, async () => {
-			await Promise.all(promises);
-			return tuzks.map((task) => task.getResult()!);
-		});
+		const composite: CompositeTuzk<R[], R> = new CompositeTuzk<R[], R>(tuzks, async (tuzk) => {
+			const promises = composite.startSubtasks((outcome) => {
+				if (outcome.status === 'rejected' && composite.failureMode === 'fail-fast') {
+					composite.cancelSubtasks();
+				}
+			});
+			switch (composite.failureMode) {
+				case 'fail-fast':
+				case 'ignore':
+					return await Promise.all(promises);
+				case 'wait-all': {
+					const settled = await Promise.allSettled(promises);
+					const errors = settled.filter((outcome) => outcome.status === 'rejected')
+						.map((outcome) => outcome.reason);
+					if (errors.length > 0) {
+						// Cancelling this task also cancels the children, which is not a failure
+						await tuzk.checkpoint();
+						throw new AggregateTuzkError(errors, `${errors.length} of ${tuzks.length} tasks failed`);
+					}
+					return settled.map((outcome) => (outcome as PromiseFulfilledResult<R>).value);
+				}
+			}
+		}, options);
+		return composite;
 	}
 
 	/**
 	 * Create a Tuzk task that runs multiple tasks in parallel and resolves when the first task is finished.
 	 *
+	 * Child tasks start when the returned task runs. Once it settles, the rest are cancelled,
+	 * unless {@link CompositeTuzkOptions.failureMode} is `ignore`.
+	 *
 	 * @param tasks An array of Tuzk instances or TuzkRunner functions.
+	 * @param options Options of the composite task.
 	 * @returns A Tuzk instance that resolves with the result of the first finished task.
 	 */
-	public static race<R>(tasks: TuzkLike<R>[]): Tuzk<R> {
+	public static race<R>(tasks: TuzkLike<R>[], options: CompositeTuzkOptions = {}): CompositeTuzk<R, R> {
+		const tuzks: Tuzk<R>[] = tasks.map((runner) => Tuzk.from(runner));
+
+		const composite: CompositeTuzk<R, R> = new CompositeTuzk<R, R>(tuzks, async () => {
+			return await Promise.race(composite.startSubtasks(() => {
+				if (composite.failureMode !== 'ignore') {
+					composite.cancelSubtasks();
+				}
+			}));
+		}, options);
+		return composite;
+	}
+
+	/**
+	 * Create a Tuzk task that runs multiple tasks in parallel and resolves when all tasks are finished,
+	 * no matter whether they succeeded, failed or were cancelled.
+	 *
+	 * Child tasks start when the returned task runs.
+	 *
+	 * @param tasks An array of Tuzk instances or TuzkRunner functions.
+	 * @param options Options of the composite task.
+	 * @returns A Tuzk instance that resolves with an array of outcomes of all tasks.
+	 */
+	public static allSettled<R>(
+		tasks: TuzkLike<R>[],
+		options: CompositeTuzkOptions = {},
+	): CompositeTuzk<TuzkSettledResult<R>[], R> {
+		const tuzks: Tuzk<R>[] = tasks.map((runner) => Tuzk.from(runner));
+
+		const composite: CompositeTuzk<TuzkSettledResult<R>[], R> = new CompositeTuzk(tuzks, async (tuzk) => {
+			const settled = await Promise.allSettled(composite.startSubtasks());
+			// Cancelling this task also cancels the children, which is not an outcome to report
+			await tuzk.checkpoint();
+
+			return settled.map((outcome, i): TuzkSettledResult<R> => {
+				const task = tuzks[i];
+				if (outcome.status === 'fulfilled') {
+					return { task, state: TuzkState.Success, result: outcome.value };
+				} else if (outcome.reason instanceof CancelledError) {
+					return { task, state: TuzkState.Cancelled, error: outcome.reason };
+				} else {
+					return { task, state: TuzkState.Failed, error: outcome.reason };
+				}
+			});
+		}, options);
+		return composite;
+	}
+
+	/**
+	 * Create a Tuzk task that runs multiple tasks in parallel and resolves when the first task succeeded.
+	 *
+	 * Child tasks start when the returned task runs. Once a child task succeeds, the rest are cancelled,
+	 * unless {@link CompositeTuzkOptions.failureMode} is `ignore`.
+	 *
+	 * @param tasks An array of Tuzk instances or TuzkRunner functions.
+	 * @param options Options of the composite task.
+	 * @returns A Tuzk instance that resolves with the result of the first succeeded task.
+	 * @throws {AggregateTuzkError} If no task succeeded.
+	 */
+	public static any<R>(tasks: TuzkLike<R>[], options: CompositeTuzkOptions = {}): CompositeTuzk<R, R> {
+		const tuzks: Tuzk<R>[] = tasks.map((runner) => Tuzk.from(runner));
+
+		const composite: CompositeTuzk<R, R> = new CompositeTuzk<R, R>(tuzks, async (tuzk) => {
+			const promises = composite.startSubtasks((outcome) => {
+				if (outcome.status === 'fulfilled' && composite.failureMode !== 'ignore') {
+					composite.cancelSubtasks();
+				}
+			});
+			try {
+				return await Promise.any(promises);
+			} catch (error: unknown) {
+				// Cancelling this task also cancels the children, which is not a failure
+				await tuzk.checkpoint();
+				throw new AggregateTuzkError((error as AggregateError).errors, 'All tasks failed');
+			}
+		}, options);
+		return composite;
+	}
+
+	/**
+	 * Create a Tuzk task that runs multiple tasks one after another, and resolves when all tasks are finished.
+	 *
+	 * A child task starts only after the previous one succeeded. If any child fails or is cancelled, the rest won't start.
+	 *
+	 * @param tasks An array of Tuzk instances or TuzkRunner functions.
+	 * @param options Options of the composite task.
+	 * @returns A Tuzk instance that resolves with an array of results from all tasks.
+	 */
+	public static sequence<R>(tasks: TuzkLike<R>[], options: CompositeTuzkOptions = {}): CompositeTuzk<R[], R> {
 		const tuzks: Tuzk<R>[] = tasks.map((runner) => Tuzk.from(runner));
-		const promises: Promise<R>[] = tuzks.map((task) => task.run());
-		return new CompositeTuzk<R, R>(tuzks, () => Promise.race(promises));
+
+		return new CompositeTuzk<R[], R>(tuzks, async (tuzk) => {
+			const results: R[] = [];
+			for (const task of tuzks) {
+				await tuzk.checkpoint();
+				results.push(await task.run());
+			}
+			return results;
+		}, options);
+	}
+
+	/**
+	 * Create a Tuzk task that runs multiple stages one after another, passing result of each stage to the next one.
+	 *
+	 * The first stage receives `undefined` as input.
+	 *
+	 * @param stages An array of stages.
+	 * @param options Options of the composite task.
+	 * @returns A Tuzk instance that resolves with the result of the last stage.
+	 */
+	public static pipe<A>(stages: [TuzkPipeStage<void, A>], options?: CompositeTuzkOptions): CompositeTuzk<A, unknown>;
+	public static pipe<A, B>(
+		stages: [TuzkPipeStage<void, A>, TuzkPipeStage<A, B>],
+		options?: CompositeTuzkOptions,
+	): CompositeTuzk<B, unknown>;
+	public static pipe<A, B, C>(
+		stages: [TuzkPipeStage<void, A>, TuzkPipeStage<A, B>, TuzkPipeStage<B, C>],
+		options?: CompositeTuzkOptions,
+	): CompositeTuzk<C, unknown>;
+	public static pipe<A, B, C, D>(
+		stages: [TuzkPipeStage<void, A>, TuzkPipeStage<A, B>, TuzkPipeStage<B, C>, TuzkPipeStage<C, D>],
+		options?: CompositeTuzkOptions,
+	): CompositeTuzk<D, unknown>;
+	public static pipe<A, B, C, D, E>(
+		stages: [
+			TuzkPipeStage<void, A>,
+			TuzkPipeStage<A, B>,
+			TuzkPipeStage<B, C>,
+			TuzkPipeStage<C, D>,
+			TuzkPipeStage<D, E>,
+		],
+		options?: CompositeTuzkOptions,
+	): CompositeTuzk<E, unknown>;
+	public static pipe<R>(
+		stages: TuzkPipeStage<never, unknown>[],
+		options?: CompositeTuzkOptions,
+	): CompositeTuzk<R, unknown>;
+	public static pipe<R>(
+		stages: TuzkPipeStage<never, unknown>[],
+		options: CompositeTuzkOptions = {},
+	): CompositeTuzk<R, unknown> {
+		let input: unknown;
+		const tuzks: Tuzk<unknown>[] = stages.map((stage) => new Tuzk((tuzk) => stage(input as never, tuzk)));
+
+		return new CompositeTuzk<R, unknown>(tuzks, async (tuzk) => {
+			input = undefined;
+			for (const task of tuzks) {
+				await tuzk.checkpoint();
+				input = await task.run();
+			}
+			return input as R;
+		}, options);
 	}
 }
 
+/**
+ * A stage of {@link Tuzk.pipe}
+ * @template I - Type of the input, which is the result of the previous stage
+ * @template O - Type of the output
+ */
+export type TuzkPipeStage<I, O> = (input: I, task: ActiveTuzk<Tuzk<unknown>>) => PromiseLike<O> | O;
+
+/**
+ * Options for constructing a {@link CompositeTuzk}
+ */
+export type CompositeTuzkOptions = TuzkOptions & {
+	/**
+	 * Weights of child tasks, in the same order as the child tasks.
+	 *
+	 * Progress of the composite task is the weighted average of the progress of its children.
+	 *
+	 * @default All children have weight 1
+	 */
+	weights?: number[];
+	/**
+	 * Maximum number of child tasks running at once, if the composite task runs them in parallel.
+	 *
+	 * @default Infinity
+	 */
+	concurrency?: number;
+	/**
+	 * How the remaining child tasks are handled when a child task fails, or the composite task settles
+	 *
+	 * @default 'fail-fast'
+	 */
+	failureMode?: CompositeFailureMode;
+};
+
+/**
+ * How the remaining child tasks are handled when a child task fails, or the composite task settles
+ *
+ * For {@link Tuzk.all}:
+ *
+ * - `fail-fast`: When a child fails, cancel the rest and reject with its error.
+ * - `wait-all`: Wait for all children to finish, then reject with an {@link AggregateTuzkError} of all errors.
+ * - `ignore`: When a child fails, reject with its error and leave the rest running.
+ *
+ * For {@link Tuzk.race} and {@link Tuzk.any}, the remaining children are cancelled once the composite task settles,
+ * unless the mode is `ignore`.
+ */
+export type CompositeFailureMode = 'fail-fast' | 'wait-all' | 'ignore';
+
 /**
  * Composite task that manages multiple child tasks
  * @template R - Result type of the composite task
@@ -329,46 +1463,225 @@ export class CompositeTuzk<R, SubR> extends Tuzk<R> {
 	/** Child tasks managed by this composite task */
 	private subtasks: Tuzk<SubR>[];
 
+	/** Weights of child tasks, in the same order as {@link subtasks} */
+	private weights: number[];
+
+	/** Maximum number of child tasks started by {@link startSubtasks} running at once */
+	private readonly concurrency: number;
+
+	/** Child task starts deferred because this task was marked as paused */
+	private deferredStarts: (() => void)[] = [];
+
+	/** Whether {@link cancelSubtasks} was called since the last {@link startSubtasks} */
+	private subtasksCancelled: boolean = false;
+
+	/** How the remaining child tasks are handled when a child task fails, or the composite task settles */
+	public readonly failureMode: CompositeFailureMode;
+
 	/**
 	 * Creates a nested task container
+	 *
+	 * While the composite task is active, its progress is derived from the progress of its children.
+	 *
 	 * @param tasks - Array of child tasks to manage
 	 * @param runner - Execution logic for the composite task
+	 * @param options - Options of the composite task
+	 * @throws {TuzkError} If weights don't match the child tasks, or any weight is negative
 	 */
-	public constructor(tasks: Tuzk<SubR>[], runner: TuzkRunner<Tuzk<R>>) {
-		super(runner);
+	public constructor(tasks: Tuzk<SubR>[], runner: TuzkRunner<Tuzk<R>>, options: CompositeTuzkOptions = {}) {
+		super((tuzk) => {
+			// Children may have progressed before this task started
+			(tuzk as unknown as CompositeTuzk<R, SubR>).updateProgressFromSubtasks();
+			return runner(tuzk);
+		}, options);
 		this.subtasks = [...tasks];
+
+		const weights = options.weights ?? this.subtasks.map(() => 1);
+		if (weights.length !== this.subtasks.length) {
+			throw new TuzkError(`Expected ${this.subtasks.length} weights, got ${weights.length}`);
+		}
+		if (weights.some((weight) => !(weight >= 0))) {
+			throw new TuzkError('Weights must be non-negative numbers');
+		}
+		this.weights = [...weights];
+		this.concurrency = options.concurrency ?? Infinity;
+		this.failureMode = options.failureMode ?? 'fail-fast';
+
+		for (const task of this.subtasks) {
+			task.onProgressUpdated.addListener(() => this.updateProgressFromSubtasks());
+		}
+	}
+
+	/**
+	 * Get child tasks managed by this composite task
+	 */
+	public getSubtasks(): readonly Tuzk<SubR>[] {
+		return this.subtasks;
+	}
+
+	/**
+	 * Start child tasks in parallel, with at most {@link CompositeTuzkOptions.concurrency} running at once.
+	 *
+	 * It should be called by the runner of this task.
+	 *
+	 * - While this task is marked as paused, no more child task is started until it is resumed.
+	 * - If this task is marked as cancelled, or {@link cancelSubtasks} was called,
+	 *   child tasks not yet started are rejected with {@link CancelledError}.
+	 *
+	 * @param onSettled Called when a child task settles, before the next child task starts.
+	 * @returns Promises of child tasks, in the same order as the child tasks.
+	 */
+	public startSubtasks(onSettled?: (outcome: PromiseSettledResult<SubR>, index: number) => void): Promise<SubR>[] {
+		const deferreds = this.subtasks.map(() => new Deferred<SubR>());
+		this.subtasksCancelled = false;
+
+		let next = 0;
+		const startNext = () => {
+			if (next >= this.subtasks.length) {
+				return;
+			}
+			const cancelled = this.isMarkedAsCancelled() || this.subtasksCancelled;
+			if (this.isMarkedAsPaused() && !cancelled) {
+				this.deferredStarts.push(startNext);
+				return;
+			}
+
+			const i = next++;
+			if (cancelled) {
+				deferreds[i].reject(new CancelledError());
+				startNext();
+				return;
+			}
+			const settle = (outcome: PromiseSettledResult<SubR>) => {
+				if (outcome.status === 'fulfilled') {
+					deferreds[i].resolve(outcome.value);
+				} else {
+					deferreds[i].reject(outcome.reason);
+				}
+				onSettled?.(outcome, i);
+				startNext();
+			};
+			this.subtasks[i].run().then(
+				(value) => settle({ status: 'fulfilled', value }),
+				(reason) => settle({ status: 'rejected', reason }),
+			);
+		};
+
+		for (let i = 0; i < Math.min(this.concurrency, this.subtasks.length); i++) {
+			startNext();
+		}
+
+		// Avoid unhandled rejections, the caller may not await all of them
+		deferreds.forEach((deferred) => deferred.catch(() => {}));
+		return deferreds;
+	}
+
+	/**
+	 * Cancel active child tasks, and prevent child tasks not yet started by {@link startSubtasks} from starting.
+	 *
+	 * Unlike {@link cancel}, this task itself is not cancelled.
+	 */
+	public cancelSubtasks(): void {
+		this.subtasksCancelled = true;
+		for (const task of this.subtasks) {
+			if (task.isActive()) {
+				task.cancel();
+			}
+		}
+		this.flushDeferredStarts();
+	}
+
+	/**
+	 * Start child tasks deferred while this task was marked as paused
+	 */
+	private flushDeferredStarts(): void {
+		const starts = this.deferredStarts;
+		this.deferredStarts = [];
+		starts.forEach((start) => start());
+	}
+
+	/**
+	 * Get weight of a child task
+	 * @param task - The child task
+	 * @returns Weight of the child task, or `undefined` if it isn't a child of this composite task
+	 */
+	public getWeight(task: Tuzk<SubR>): number | undefined {
+		const index = this.subtasks.indexOf(task);
+		return index === -1 ? undefined : this.weights[index];
+	}
+
+	public override getProgressTree(): TuzkProgressNode {
+		return {
+			...super.getProgressTree(),
+			children: this.subtasks.map((task, i) => ({ ...task.getProgressTree(), weight: this.weights[i] })),
+		};
+	}
+
+	/**
+	 * Compute weighted average of the progress of child tasks
+	 * @returns The weighted progress, or `undefined` if total weight is 0
+	 */
+	protected computeProgressFromSubtasks(): number | undefined {
+		let totalWeight = 0;
+		let weighted = 0;
+		for (let i = 0; i < this.subtasks.length; i++) {
+			totalWeight += this.weights[i];
+			weighted += this.weights[i] * this.subtasks[i].getProgress();
+		}
+		return totalWeight === 0 ? undefined : Math.min(1, weighted / totalWeight);
+	}
+
+	/**
+	 * Update progress of this task from its children, if this task is active
+	 */
+	protected updateProgressFromSubtasks(): void {
+		if (!this.isActive()) {
+			return;
+		}
+		const progress = this.computeProgressFromSubtasks();
+		if (progress !== undefined) {
+			this.setProgress(progress);
+		}
 	}
 
 	/**
-	 * Suspends execution of this task and all child tasks
+	 * Suspends execution of this task and its active child tasks
 	 * @throws {InvalidActionError} If task isn't in runnable state
 	 */
-	public override pause(): void {
-		super.pause();
+	public override pause(cause?: unknown): void {
+		super.pause(cause);
 		for (const task of this.subtasks) {
-			task.pause();
+			if (task.isActive()) {
+				task.pause(cause);
+			}
 		}
 	}
 
 	/**
-	 * Resumes execution of this task and all child tasks
+	 * Resumes execution of this task and its active child tasks
 	 * @throws {InvalidActionError} If task isn't in pausable state
 	 */
-	public override resume(): void {
-		super.resume();
+	public override resume(cause?: unknown): void {
+		super.resume(cause);
 		for (const task of this.subtasks) {
-			task.resume();
+			if (task.isActive()) {
+				task.resume(cause);
+			}
 		}
+		this.flushDeferredStarts();
 	}
 
 	/**
-	 * Cancels execution of this task and all child tasks
+	 * Cancels execution of this task and its active child tasks
 	 * @throws {InvalidActionError} If task isn't in cancelable state
 	 */
-	public override cancel(): void {
-		super.cancel();
+	public override cancel(reason?: CancelledError): void {
+		super.cancel(reason);
 		for (const task of this.subtasks) {
-			task.cancel();
+			if (task.isActive()) {
+				task.cancel();
+			}
 		}
+		this.flushDeferredStarts();
 	}
 }
@@ -1,3 +1,4 @@
+import type { CancelledError } from '@/errors.ts';
 import type { Tuzk } from '@/tuzk.ts';
 
 /**
@@ -37,12 +38,65 @@ export interface BaseActiveTuzk {
 	 */
 	setProgress(progress: number): void;
 
+	/**
+	 * Set progress of the task in absolute units, like bytes.
+	 *
+	 * Progress is set to `done / total`.
+	 *
+	 * @param done Finished units of work.
+	 * @param total Total units of work. If specified, it replaces {@link Tuzk.total}.
+	 * @throws {TuzkError} If total is not known or not positive, or done is not in range [0, total].
+	 */
+	setUnits(done: number, total?: number): void;
+
+	/**
+	 * Create a scope that maps its own progress [0.0, 1.0] onto the range [start, end] of this task.
+	 *
+	 * Scopes can be nested, and their checkpoints still pause or cancel the task.
+	 * Pass a scope to a helper function, so that it can report its own progress.
+	 *
+	 * ```ts
+	 * const task = new Tuzk<void>(async (tuzk) => {
+	 *     await download(tuzk.scope(0, 0.7));
+	 *     await extract(tuzk.scope(0.7, 1));
+	 * });
+	 *
+	 * async function download(scope: TuzkProgressScope) {
+	 *     for (let i = 1; i <= 10; i++) {
+	 *         await scope.checkpoint(i / 10);
+	 *     }
+	 * }
+	 * ```
+	 *
+	 * @param start Progress of this task when the scope is at 0.
+	 * @param end Progress of this task when the scope is at 1.
+	 * @throws {TuzkError} If not `0 <= start <= end <= 1`.
+	 */
+	scope(start: number, end: number): TuzkProgressScope;
+
+	/**
+	 * Get the last snapshot of the task.
+	 *
+	 * A snapshot is serializable state written by the runner, like the offset of an import.
+	 * When a task is restored from a storage, it holds the snapshot it had before, so the runner can resume from it.
+	 *
+	 * @returns The snapshot, or `undefined` if none was written.
+	 */
+	getSnapshot(): unknown;
+
+	/**
+	 * Write a snapshot of the task.
+	 *
+	 * @param snapshot Serializable state to resume from.
+	 */
+	setSnapshot(snapshot: unknown): void;
+
 	/**
 	 * This method should only be invoked and awaited in a {@link TuzkRunner}.
 	 *
 	 * It does:
 	 *
-	 * - Update the progress if specified
+	 * - Update the progress and the snapshot if specified
 	 * - Check if the task should be paused or cancelled
 	 *     - If the task is marked as cancelled by {@link cancel}, it throws a `CancelledError`.
 	 *     - If the task is marked as paused by {@link pause}, it won't resolve until {@link resume} is called.
@@ -58,20 +112,35 @@ export interface BaseActiveTuzk {
 	 * ```
 	 *
 	 * @param progress Progress to set.
+	 * @param snapshot Snapshot to write. See {@link getSnapshot}.
 	 *
 	 * @throws {InvalidStateError} If the task is not active.
 	 * @throws {TuzkError} If progress is not in range [0.0, 1.0].
 	 * @throws {CancelledError} If this task is marked as cancelled.
+	 * @throws {TimeoutError} If this task runs out of its timeout or passes its deadline.
+	 */
+	checkpoint(progress?: number, snapshot?: unknown): Promise<void>;
+
+	/**
+	 * Wait for some time, measured by the clock of the task.
+	 *
+	 * Prefer it over `setTimeout` in runners, so that they can be tested with a virtual clock.
+	 *
+	 * @param ms Milliseconds to wait.
+	 * @throws {CancelledError} If this task is cancelled meanwhile.
+	 * @throws {TimeoutError} If this task runs out of its timeout or passes its deadline meanwhile.
 	 */
-	checkpoint(progress?: number): Promise<void>;
+	sleep(ms: number): Promise<void>;
+
 	/**
 	 * Mark this task as paused.
 	 *
 	 * Next time the runner calls {@link checkpoint}, the task will be really paused.
 	 *
+	 * @param cause Why the task is paused. It is recorded in the `paused` event.
 	 * @throws {InvalidStateError} If the task is not active.
 	 */
-	pause(): void;
+	pause(cause?: unknown): void;
 
 	/**
 	 * Resume this task.
@@ -80,18 +149,21 @@ export interface BaseActiveTuzk {
 	 *
 	 * If the task is really paused, it will be resumed.
 	 *
+	 * @param cause Why the task is resumed. It is recorded in the `resumed` event.
 	 * @throws {InvalidStateError} If the task is not running.
 	 */
-	resume(): void;
+	resume(cause?: unknown): void;
 
 	/**
 	 * Mark this task as cancelled.
 	 *
 	 * Next time the runner calls {@link checkpoint}, the task will no longer run.
 	 *
-	 * @throws {InvalidStateError} If the task is not running.
+	 * If the task is pending, it is cancelled immediately without running. If it is finished, nothing happens.
+	 *
+	 * @param reason The error to throw when the task is really cancelled.
 	 */
-	cancel(): void;
+	cancel(reason?: CancelledError): void;
 
 	/**
 	 * Check if this task is marked as paused.
@@ -102,8 +174,33 @@ export interface BaseActiveTuzk {
 	 * Check if this task is marked as cancelled.
 	 */
 	isMarkedAsCancelled(): boolean;
+
+	/**
+	 * Get the number of the current attempt, starting from 1.
+	 *
+	 * It is greater than 1 only if the task has a retry policy and previous attempts failed.
+	 *
+	 * @returns The attempt number, or 0 if the task has never run.
+	 */
+	getAttempt(): number;
+
+	/**
+	 * Signal that aborts when this task is cancelled or timed out.
+	 *
+	 * Pass it to APIs that accept an `AbortSignal` (like `fetch`), so that they can be interrupted
+	 * without waiting for the next {@link checkpoint}.
+	 *
+	 * The abort reason is a `CancelledError` or a `TimeoutError`. A new signal is created on every run.
+	 */
+	readonly signal: AbortSignal;
 }
 
+/**
+ * Part of an active task that reports progress, like a task itself, or a scope of it
+ * @see BaseActiveTuzk.scope
+ */
+export type TuzkProgressScope = Pick<BaseActiveTuzk, 'setProgress' | 'checkpoint' | 'scope' | 'signal'>;
+
 type BaseTuzk = Tuzk<unknown, string>;
 
 /**
@@ -137,3 +234,103 @@ export type TuzkRunner<T extends BaseTuzk> = (task: ActiveTuzk<T>) =>
  * @see Tuzk.from Conversion method
  */
 export type TuzkLike<R, F extends string = never> = TuzkRunner<Tuzk<R, F>> | Tuzk<R, F>;
+
+/**
+ * A node of the progress tree of a task
+ * @see Tuzk.getProgressTree
+ */
+export type TuzkProgressNode = {
+	/** The task this node describes */
+	task: Tuzk<unknown, string>;
+	/** Current state of the task */
+	state: TuzkState;
+	/** Current progress of the task. Range: [0.0, 1.0] */
+	progress: number;
+	/** Weight of the task in its parent. It is 1 for the root node */
+	weight: number;
+	/** Nodes of child tasks, empty if the task has no children */
+	children: TuzkProgressNode[];
+};
+
+/**
+ * Outcome of a child task of {@link Tuzk.allSettled}
+ * @template R - Type of the task result
+ */
+export type TuzkSettledResult<R> =
+	| { task: Tuzk<R>; state: TuzkState.Success; result: R }
+	| { task: Tuzk<R>; state: TuzkState.Failed; error: unknown }
+	| { task: Tuzk<R>; state: TuzkState.Cancelled; error: CancelledError };
+
+/**
+ * Kinds of {@link TuzkEvent}
+ *
+ * - `created`: The task is constructed
+ * - `queued`: The task is queued by a manager
+ * - `started`: The task starts running
+ * - `paused`: The task is really paused at a checkpoint
+ * - `resumed`: The task continues running after being paused
+ * - `progress`: The progress of the task changes
+ * - `retried`: A failed attempt is going to be retried
+ * - `succeeded`, `failed`, `cancelled`: The task finishes
+ * - `reset`: The finished task is reset to pending, to run again
+ */
+export type TuzkEventType =
+	| 'created'
+	| 'queued'
+	| 'started'
+	| 'paused'
+	| 'resumed'
+	| 'progress'
+	| 'retried'
+	| 'succeeded'
+	| 'failed'
+	| 'cancelled'
+	| 'reset';
+
+/**
+ * Something that happened to a task
+ * @see Tuzk.onEvent
+ */
+export type TuzkEvent = {
+	/** Kind of the event */
+	type: TuzkEventType;
+	/** The task it happened to */
+	task: Tuzk<unknown, string>;
+	/** When it happened, in milliseconds since epoch */
+	timestamp: number;
+	/**
+	 * Why it happened, if known
+	 *
+	 * It is the error for `failed` and `retried`, the reason for `cancelled`,
+	 * and the cause given to {@link BaseActiveTuzk.pause} or {@link BaseActiveTuzk.resume} for `paused` and `resumed`.
+	 */
+	cause?: unknown;
+	/** Progress of the task when it happened */
+	progress: number;
+	/** Attempt number of the task when it happened */
+	attempt: number;
+};
+
+/**
+ * Record of a finished run of a task
+ * @template R - Type of the task result
+ * @see Tuzk.getRuns
+ */
+export type TuzkRunRecord<R> = {
+	/** Number of the run, starting from 1 */
+	run: number;
+	/** How the run finished */
+	state: TuzkState.Success | TuzkState.Failed | TuzkState.Cancelled;
+	/** Result of a succeeded run */
+	result?: R;
+	/** Error of a failed or cancelled run */
+	error?: unknown;
+	/** When the run started, in milliseconds since epoch */
+	startedAt: number;
+	/** When the run finished, in milliseconds since epoch */
+	finishedAt: number;
+	/** Milliseconds spent running, excluding paused time */
+	activeTime: number;
+	/** Number of attempts made, more than 1 if retried */
+	attempts: number;
+};
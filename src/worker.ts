@@ -0,0 +1,377 @@
+import { Deferred } from '@leawind/inventory/deferred';
+import * as errors from '@/errors.ts';
+import { type CancelledError, TuzkError } from '@/errors.ts';
+import { Tuzk, type TuzkOptions } from '@/tuzk.ts';
+import type { ActiveTuzk, BaseActiveTuzk } from '@/types.ts';
+
+/**
+ * The task as seen by a runner in a worker
+ *
+ * Calls are proxied to the task on the main thread, so that it can pause, resume and cancel the runner.
+ * Snapshots and pause causes must be structured cloneable.
+ *
+ * There is no `signal`, because the worker is terminated as soon as the task is cancelled or times out.
+ */
+export type WorkerTuzkContext = Pick<
+	BaseActiveTuzk,
+	'setProgress' | 'checkpoint' | 'pause' | 'resume' | 'cancel' | 'getSnapshot' | 'setSnapshot'
+>;
+
+/**
+ * Runner executed in a worker
+ *
+ * @template I - Type of the input, which must be structured cloneable
+ * @template R - Type of the result, which must be structured cloneable
+ */
+export type WorkerTuzkRunner<I, R> = (task: WorkerTuzkContext, input: I) => PromiseLike<R> | R;
+
+/**
+ * Options for constructing a {@link WorkerTuzk}
+ */
+export type WorkerTuzkOptions = TuzkOptions & {
+	/**
+	 * Options for creating the worker
+	 * @default { type: 'module' }
+	 */
+	workerOptions?: WorkerOptions;
+};
+
+/**
+ * An error in a form that can be posted between threads
+ */
+type SerializedError =
+	| {
+		kind: 'error';
+		className: string;
+		name: string;
+		message: string;
+		stack?: string;
+		props: Record<string, unknown>;
+	}
+	| { kind: 'value'; value: unknown };
+
+/**
+ * Messages posted from the main thread to the worker
+ */
+type MainMessage =
+	| { type: 'run'; input: unknown; snapshot: unknown }
+	| { type: 'checkpoint'; id: number; error?: SerializedError };
+
+/**
+ * Messages posted from the worker to the main thread
+ */
+type WorkerMessage =
+	| { type: 'progress'; progress: number }
+	| { type: 'snapshot'; snapshot: unknown }
+	| { type: 'checkpoint'; id: number; progress?: number; snapshot?: unknown }
+	| { type: 'pause'; cause: unknown }
+	| { type: 'resume'; cause: unknown }
+	| { type: 'cancel'; reason?: SerializedError }
+	| { type: 'done'; result: unknown }
+	| { type: 'error'; error: SerializedError };
+
+/**
+ * Global scope of a worker, as far as this module is concerned
+ */
+type WorkerScope = {
+	postMessage(message: unknown): void;
+	onmessage: ((event: MessageEvent) => void) | null;
+};
+
+/**
+ * Error classes that keep their type when crossing threads, keyed by class name
+ */
+const ERROR_CLASSES: Record<string, ErrorConstructor> = {
+	Error,
+	EvalError,
+	RangeError,
+	ReferenceError,
+	SyntaxError,
+	TypeError,
+	URIError,
+};
+for (const value of Object.values(errors)) {
+	if (typeof value === 'function' && value.prototype instanceof Error) {
+		ERROR_CLASSES[value.name] = value as unknown as ErrorConstructor;
+	}
+}
+
+function isCloneable(value: unknown): boolean {
+	try {
+		structuredClone(value);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function serializeError(error: unknown): SerializedError {
+	if (!(error instanceof Error)) {
+		return { kind: 'value', value: isCloneable(error) ? error : String(error) };
+	}
+	const props: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(error)) {
+		if (key === 'errors' && Array.isArray(value)) {
+			props[key] = value.map(serializeError);
+		} else if (isCloneable(value)) {
+			props[key] = value;
+		}
+	}
+	return {
+		kind: 'error',
+		className: error.constructor.name,
+		name: error.name,
+		message: error.message,
+		stack: error.stack,
+		props,
+	};
+}
+
+/**
+ * Recreates an error as an instance of its original class, if it's a tuzk error or a standard error
+ */
+function deserializeError(data: SerializedError): unknown {
+	if (data.kind === 'value') {
+		return data.value;
+	}
+	const error: Error = Object.create((ERROR_CLASSES[data.className] ?? Error).prototype);
+	Object.defineProperty(error, 'message', { value: data.message, writable: true, configurable: true });
+	Object.defineProperty(error, 'stack', { value: data.stack, writable: true, configurable: true });
+	if (error.name !== data.name) {
+		error.name = data.name;
+	}
+	for (const [key, value] of Object.entries(data.props)) {
+		(error as unknown as Record<string, unknown>)[key] = key === 'errors' && Array.isArray(value)
+			? value.map(deserializeError)
+			: value;
+	}
+	return error;
+}
+
+/**
+ * Runs a runner in a worker, and proxies messages to the task on the main thread
+ *
+ * The worker is terminated when the run finishes. If the task is cancelled or times out, that happens right away,
+ * without waiting for the runner to reach a checkpoint.
+ */
+async function runInWorker<R>(
+	task: ActiveTuzk<Tuzk<R>>,
+	url: string | URL,
+	input: unknown,
+	workerOptions: WorkerOptions = {},
+): Promise<R> {
+	task.signal.throwIfAborted();
+
+	const worker = new Worker(url, { type: 'module', ...workerOptions });
+	const done = new Deferred<R>();
+	let terminated = false;
+	const post = (message: MainMessage) => {
+		if (!terminated) {
+			worker.postMessage(message);
+		}
+	};
+
+	const onAbort = () => done.reject(task.signal.reason);
+	task.signal.addEventListener('abort', onAbort);
+
+	worker.onmessage = (event: MessageEvent) => {
+		const message = event.data as WorkerMessage;
+		try {
+			switch (message.type) {
+				case 'progress':
+					task.setProgress(message.progress);
+					break;
+				case 'snapshot':
+					task.setSnapshot(message.snapshot);
+					break;
+				case 'checkpoint': {
+					const { id, progress, snapshot } = message;
+					(async () => await task.checkpoint(progress, snapshot))().then(
+						() => post({ type: 'checkpoint', id }),
+						(error: unknown) => post({ type: 'checkpoint', id, error: serializeError(error) }),
+					);
+					break;
+				}
+				case 'pause':
+					task.pause(message.cause);
+					break;
+				case 'resume':
+					task.resume(message.cause);
+					break;
+				case 'cancel':
+					task.cancel(message.reason && deserializeError(message.reason) as CancelledError);
+					break;
+				case 'done':
+					done.resolve(message.result as R);
+					break;
+				case 'error':
+					done.reject(deserializeError(message.error));
+					break;
+			}
+		} catch (error: unknown) {
+			done.reject(error);
+		}
+	};
+	worker.onerror = (event: ErrorEvent) => {
+		event.preventDefault();
+		done.reject(new TuzkError(`Worker failed: ${event.message}`));
+	};
+	worker.onmessageerror = () => done.reject(new TuzkError('Worker sent a message that could not be deserialized'));
+
+	post({ type: 'run', input, snapshot: task.getSnapshot() });
+	try {
+		return await done;
+	} finally {
+		task.signal.removeEventListener('abort', onAbort);
+		terminated = true;
+		worker.terminate();
+	}
+}
+
+/**
+ * Task whose runner executes in a worker, so that heavy work doesn't block the main thread
+ *
+ * The worker module defines its runner with {@link defineWorkerRunner}. Each run, including each retry,
+ * starts a new worker, which is terminated when the run finishes, or as soon as the task is cancelled or times out.
+ *
+ * The task itself lives on the main thread and behaves like any other task. It can be paused, resumed, cancelled
+ * and submitted to a manager. Errors thrown by the runner keep their type, including {@link CancelledError}.
+ *
+ * ```ts
+ * // resize.ts
+ * defineWorkerRunner(async (task, input: { image: ImageData; width: number }) => {
+ *     for (let row = 0; row < input.width; row++) {
+ *         resizeRow(input.image, row);
+ *         await task.checkpoint(row / input.width);
+ *     }
+ *     return input.image;
+ * });
+ *
+ * // main.ts
+ * const task = new WorkerTuzk<ImageData>(new URL('./resize.ts', import.meta.url), { image, width: 800 });
+ * manager.submit(task);
+ * ```
+ *
+ * @template R - Type of the result, which must be structured cloneable
+ * @template I - Type of the input, which must be structured cloneable
+ */
+export class WorkerTuzk<R, I = unknown> extends Tuzk<R> {
+	/**
+	 * @param url - URL of the worker module
+	 * @param input - Input passed to the runner
+	 * @param options - Options of the task and the worker
+	 */
+	public constructor(
+		public readonly url: string | URL,
+		public readonly input: I,
+		options: WorkerTuzkOptions = {},
+	) {
+		super((task) => runInWorker(task, url, input, options.workerOptions), options);
+	}
+}
+
+/**
+ * Task proxy given to the runner in a worker
+ */
+class WorkerContext implements WorkerTuzkContext {
+	private readonly checkpoints: Map<number, Deferred<void>> = new Map();
+	private checkpointCounter: number = 0;
+
+	public constructor(private readonly scope: WorkerScope, private snapshot: unknown) {}
+
+	private post(message: WorkerMessage): void {
+		this.scope.postMessage(message);
+	}
+
+	public getSnapshot(): unknown {
+		return this.snapshot;
+	}
+
+	public setSnapshot(snapshot: unknown): void {
+		this.snapshot = snapshot;
+		this.post({ type: 'snapshot', snapshot });
+	}
+
+	public setProgress(progress: number): void {
+		if (progress < 0 || progress > 1) {
+			throw new TuzkError('Progress must be in range [0.0, 1.0]');
+		}
+		this.post({ type: 'progress', progress });
+	}
+
+	public checkpoint(progress?: number, snapshot?: unknown): Promise<void> {
+		if (progress !== undefined && (progress < 0 || progress > 1)) {
+			throw new TuzkError('Progress must be in range [0.0, 1.0]');
+		}
+		if (snapshot !== undefined) {
+			this.snapshot = snapshot;
+		}
+		const id = this.checkpointCounter++;
+		const deferred = new Deferred<void>();
+		this.checkpoints.set(id, deferred);
+		this.post({ type: 'checkpoint', id, progress, snapshot });
+		return deferred;
+	}
+
+	/**
+	 * Settles a checkpoint after the task on the main thread passed it
+	 */
+	public settleCheckpoint(id: number, error?: SerializedError): void {
+		const deferred = this.checkpoints.get(id);
+		this.checkpoints.delete(id);
+		if (error === undefined) {
+			deferred?.resolve();
+		} else {
+			deferred?.reject(deserializeError(error));
+		}
+	}
+
+	public pause(cause?: unknown): void {
+		this.post({ type: 'pause', cause });
+	}
+
+	public resume(cause?: unknown): void {
+		this.post({ type: 'resume', cause });
+	}
+
+	public cancel(reason?: CancelledError): void {
+		this.post({ type: 'cancel', reason: reason && serializeError(reason) });
+	}
+}
+
+/**
+ * Defines the runner of a worker module used by {@link WorkerTuzk}
+ *
+ * Call it once at the top level of the worker module.
+ *
+ * @param runner - The runner, called with a proxy of the task and the input
+ */
+export function defineWorkerRunner<I, R>(runner: WorkerTuzkRunner<I, R>): void {
+	const scope = globalThis as unknown as WorkerScope;
+	let context: WorkerContext | undefined;
+
+	scope.onmessage = async (event: MessageEvent) => {
+		const message = event.data as MainMessage;
+		switch (message.type) {
+			case 'run': {
+				context = new WorkerContext(scope, message.snapshot);
+				let result: WorkerMessage;
+				try {
+					result = { type: 'done', result: await runner(context, message.input as I) };
+				} catch (error: unknown) {
+					result = { type: 'error', error: serializeError(error) };
+				}
+				try {
+					scope.postMessage(result);
+				} catch (error: unknown) {
+					// The result is not cloneable
+					scope.postMessage({ type: 'error', error: serializeError(error) });
+				}
+				break;
+			}
+			case 'checkpoint':
+				context?.settleCheckpoint(message.id, message.error);
+				break;
+		}
+	};
+}
@@ -0,0 +1,72 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk, type TuzkEventType, TuzkManager } from '@/index.ts';
+import { assertEquals, assertRejects, assertStrictEquals } from '@std/assert';
+
+Deno.test('await a task', async () => {
+	const tuzk = new Tuzk<number>(async (tuzk) => {
+		await wait(10);
+		await tuzk.checkpoint(0.5);
+		return 42;
+	});
+	tuzk.run();
+	assertStrictEquals(await tuzk, 42);
+	// Settled tasks can be awaited again
+	assertStrictEquals(await tuzk, 42);
+
+	const failed = Tuzk.from<void>(() => {
+		throw new Error('Oops');
+	});
+	failed.run().catch(() => {});
+	await assertRejects(async () => await failed, Error, 'Oops');
+});
+
+Deno.test('await a task submitted to manager', async () => {
+	const mgr = new TuzkManager(1);
+	mgr.submit(() => wait(10));
+	const queued = mgr.submit(() => 'done');
+	assertStrictEquals(await queued, 'done');
+
+	const cancelled = mgr.submit(async (tuzk) => {
+		await wait(10);
+		await tuzk.checkpoint();
+	});
+	cancelled.cancel();
+	await assertRejects(async () => await cancelled, errors.CancelledError);
+});
+
+Deno.test('iterate over task events', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		for (let i = 1; i <= 3; i++) {
+			await wait(5);
+			await tuzk.checkpoint(i / 3);
+		}
+	});
+	tuzk.run();
+
+	const types: TuzkEventType[] = [];
+	const progress: number[] = [];
+	for await (const event of tuzk) {
+		types.push(event.type);
+		if (event.type === 'progress') {
+			progress.push(event.progress);
+		}
+	}
+	assertStrictEquals(types.at(-1), 'succeeded');
+	assertEquals(progress, [1 / 3, 2 / 3, 1]);
+
+	// Finished task yields nothing
+	assertEquals(await Array.fromAsync(tuzk.events()), []);
+});
+
+Deno.test('iterate over completed tasks of manager', async () => {
+	const mgr = new TuzkManager(3);
+	const slow = mgr.submit(() => wait(30));
+	const fast = mgr.submit(() => wait(10));
+	const failed = mgr.submit(() => Promise.reject(new Error('Oops')));
+
+	const completed: Tuzk<unknown, string>[] = [];
+	for await (const task of mgr) {
+		completed.push(task);
+	}
+	assertEquals(completed, [failed, fast, slow]);
+});
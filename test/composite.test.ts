@@ -0,0 +1,194 @@
+import { assert, assertAlmostEquals, assertEquals, assertRejects, assertStrictEquals, assertThrows } from '@std/assert';
+import { Deferred } from '@leawind/inventory/deferred';
+import { CompositeTuzk, errors, Tuzk } from '@/index.ts';
+
+Deno.test('composite progress follows children', async () => {
+	const gates = [new Deferred<void>(), new Deferred<void>()];
+	const tuzks = gates.map((gate) =>
+		new Tuzk<void>(async (tuzk) => {
+			await tuzk.checkpoint(0.5);
+			await gate;
+		})
+	);
+	const all = Tuzk.all(tuzks);
+	const progresses: number[] = [];
+	all.onProgressUpdated.addListener((e) => progresses.push(e.data));
+
+	const promise = all.run();
+	await new Promise((r) => setTimeout(r, 10));
+	assertAlmostEquals(all.getProgress(), 0.5);
+
+	gates[0].resolve();
+	await new Promise((r) => setTimeout(r, 10));
+	assertAlmostEquals(all.getProgress(), 0.75);
+
+	gates[1].resolve();
+	await promise;
+	assertStrictEquals(all.getProgress(), 1);
+	assert(progresses.every((p, i) => i === 0 || p >= progresses[i - 1]));
+});
+
+Deno.test('composite progress is weighted', async () => {
+	const gate = new Deferred<void>();
+	const light = new Tuzk<void>(async (tuzk) => await tuzk.checkpoint(1));
+	const heavy = new Tuzk<void>(async (tuzk) => {
+		await tuzk.checkpoint(0);
+		await gate;
+	});
+	const all = Tuzk.all([light, heavy], { weights: [1, 3] });
+
+	const promise = all.run();
+	await new Promise((r) => setTimeout(r, 10));
+	assertAlmostEquals(all.getProgress(), 0.25);
+	assertStrictEquals(all.getWeight(heavy), 3);
+
+	gate.resolve();
+	await promise;
+});
+
+Deno.test('weights must match children', () => {
+	const noop = () => {};
+	assertThrows(() => new CompositeTuzk([new Tuzk(noop), new Tuzk(noop)], noop, { weights: [1] }), errors.TuzkError);
+	assertThrows(() => new CompositeTuzk([new Tuzk(noop)], noop, { weights: [-1] }), errors.TuzkError);
+});
+
+Deno.test('progress tree of nested composite', async () => {
+	const a = new Tuzk<number>(() => 1);
+	const b = new Tuzk<number>(() => 2);
+	const c = new Tuzk<number>(() => 3);
+	const inner = Tuzk.all([b, c]);
+	const outer = Tuzk.all<unknown>([a, inner], { weights: [1, 2] });
+
+	await outer.run();
+
+	const tree = outer.getProgressTree();
+	assertStrictEquals(tree.task, outer);
+	assertStrictEquals(tree.state, 'success');
+	assertStrictEquals(tree.children.length, 2);
+	assertStrictEquals(tree.children[1].task, inner);
+	assertStrictEquals(tree.children[1].weight, 2);
+	assertEquals(tree.children[1].children.map((node) => [node.task, node.progress]), [[b, 1], [c, 1]]);
+});
+
+Deno.test('children start when composite runs', async () => {
+	const tuzks = [new Tuzk<number>(() => 1), new Tuzk<number>(() => 2)];
+	const all = Tuzk.all(tuzks);
+
+	assert(tuzks.every((tuzk) => tuzk.stateIs('pending')));
+	assertEquals(await all.run(), [1, 2]);
+	assert(tuzks.every((tuzk) => tuzk.stateIs('success')));
+});
+
+Deno.test('composite limits concurrency of children', async () => {
+	let running = 0;
+	let maxRunning = 0;
+	const tuzks = Array.from({ length: 6 }, () =>
+		new Tuzk<void>(async () => {
+			maxRunning = Math.max(maxRunning, ++running);
+			await new Promise((r) => setTimeout(r, 10));
+			running--;
+		}));
+
+	await Tuzk.all(tuzks, { concurrency: 2 }).run();
+	assertStrictEquals(maxRunning, 2);
+});
+
+Deno.test('allSettled reports outcome of each child', async () => {
+	const ok = new Tuzk<number>(() => 1);
+	const failed = new Tuzk<number>(() => {
+		throw new Error('Task failed');
+	});
+	const cancelled = new Tuzk<number>(async (tuzk) => {
+		cancelled.cancel();
+		await tuzk.checkpoint();
+		return 3;
+	});
+
+	const outcomes = await Tuzk.allSettled([ok, failed, cancelled]).run();
+
+	assertEquals(outcomes.map((outcome) => outcome.state), ['success', 'failed', 'cancelled']);
+	assertEquals(outcomes.map((outcome) => outcome.task), [ok, failed, cancelled]);
+	const [first, second, third] = outcomes;
+	assert(first.state === 'success' && first.result === 1);
+	assert(second.state === 'failed' && second.error instanceof Error);
+	assert(third.state === 'cancelled' && third.error instanceof errors.CancelledError);
+});
+
+Deno.test('any resolves with first succeeded child', async () => {
+	const any = Tuzk.any([
+		new Tuzk<string>(() => {
+			throw new Error('Task failed');
+		}),
+		new Tuzk<string>(async () => {
+			await new Promise((r) => setTimeout(r, 10));
+			return 'ok';
+		}),
+	]);
+	assertStrictEquals(await any.run(), 'ok');
+});
+
+Deno.test('any rejects when all children failed', async () => {
+	const any = Tuzk.any([1, 2].map((i) =>
+		new Tuzk<string>(() => {
+			throw new Error(`Task ${i} failed`);
+		})
+	));
+	const error = await assertRejects(() => any.run(), errors.AggregateTuzkError);
+	assertStrictEquals((error as errors.AggregateTuzkError).errors.length, 2);
+	assert(any.stateIs('failed'));
+});
+
+function slowTask(): Tuzk<void> {
+	return new Tuzk<void>(async (tuzk) => {
+		for (let i = 0; i < 10; i++) {
+			await new Promise((r) => setTimeout(r, 10));
+			await tuzk.checkpoint(i / 10);
+		}
+	});
+}
+
+function failingTask(message: string): Tuzk<void> {
+	return new Tuzk<void>(async () => {
+		await new Promise((r) => setTimeout(r, 10));
+		throw new Error(message);
+	});
+}
+
+Deno.test('all cancels siblings when a child fails', async () => {
+	const slow = slowTask();
+	const pending = slowTask();
+	const all = Tuzk.all([slow, failingTask('Task failed'), pending], { concurrency: 2 });
+
+	await assertRejects(() => all.run(), Error, 'Task failed');
+	await new Promise((r) => setTimeout(r, 20));
+	assert(slow.stateIs('cancelled'));
+	assert(pending.stateIs('pending'));
+});
+
+Deno.test('all waits for every child and aggregates errors', async () => {
+	const slow = slowTask();
+	const all = Tuzk.all([failingTask('A'), slow, failingTask('B')], { failureMode: 'wait-all' });
+
+	const error = await assertRejects(() => all.run(), errors.AggregateTuzkError);
+	assert(slow.stateIs('success'));
+	assertEquals((error as errors.AggregateTuzkError).errors.map((e) => (e as Error).message), ['A', 'B']);
+});
+
+Deno.test('all leaves siblings running when ignoring failures', async () => {
+	const slow = slowTask();
+	const all = Tuzk.all([slow, failingTask('Task failed')], { failureMode: 'ignore' });
+
+	await assertRejects(() => all.run(), Error, 'Task failed');
+	assert(slow.stateIs('running'));
+	await new Promise((r) => setTimeout(r, 150));
+	assert(slow.stateIs('success'));
+});
+
+Deno.test('race cancels losers', async () => {
+	const slow = slowTask();
+	const race = Tuzk.race([slow, new Tuzk<void>(() => {})]);
+
+	await race.run();
+	await new Promise((r) => setTimeout(r, 20));
+	assert(slow.stateIs('cancelled'));
+});
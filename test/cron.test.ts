@@ -0,0 +1,35 @@
+import { CronExpression } from '@/index.ts';
+import { assertStrictEquals, assertThrows } from '@std/assert';
+
+function next(expression: string, after: Date): Date {
+	return new Date(new CronExpression(expression).next(after.getTime()));
+}
+
+Deno.test('cron fields', () => {
+	const now = new Date(2024, 0, 1, 10, 7, 30);
+	assertStrictEquals(next('* * * * *', now).getTime(), new Date(2024, 0, 1, 10, 8).getTime());
+	assertStrictEquals(next('*/15 * * * *', now).getTime(), new Date(2024, 0, 1, 10, 15).getTime());
+	assertStrictEquals(next('5,50 9-11 * * *', now).getTime(), new Date(2024, 0, 1, 10, 50).getTime());
+	assertStrictEquals(next('0 0 * * *', now).getTime(), new Date(2024, 0, 2).getTime());
+	assertStrictEquals(next('@monthly', now).getTime(), new Date(2024, 1, 1).getTime());
+	assertStrictEquals(next('0 0 29 2 *', now).getTime(), new Date(2024, 1, 29).getTime());
+});
+
+Deno.test('cron days', () => {
+	// 2024-01-01 is Monday
+	const now = new Date(2024, 0, 1, 12);
+	assertStrictEquals(next('0 9 * * 6,7', now).getTime(), new Date(2024, 0, 6, 9).getTime());
+	assertStrictEquals(next('0 9 * * 0', now).getTime(), new Date(2024, 0, 7, 9).getTime());
+	// Either day of month or day of week matches
+	assertStrictEquals(next('0 9 3 * 5', now).getTime(), new Date(2024, 0, 3, 9).getTime());
+	assertStrictEquals(next('0 9 10 * 5', now).getTime(), new Date(2024, 0, 5, 9).getTime());
+});
+
+Deno.test('invalid cron expressions', () => {
+	assertThrows(() => new CronExpression('* * * *'));
+	assertThrows(() => new CronExpression('60 * * * *'));
+	assertThrows(() => new CronExpression('5-1 * * * *'));
+	assertThrows(() => new CronExpression('*/0 * * * *'));
+	assertThrows(() => new CronExpression('a * * * *'));
+	assertThrows(() => new CronExpression('0 0 30 2 *').next(0));
+});
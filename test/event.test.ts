@@ -0,0 +1,62 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk, type TuzkEvent, TuzkManager } from '@/index.ts';
+import { assert, assertEquals, assertInstanceOf, assertRejects, assertStrictEquals } from '@std/assert';
+
+Deno.test('task event stream', async () => {
+	const events: TuzkEvent[] = [];
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		await tuzk.checkpoint(0.5);
+		await wait(10);
+		await tuzk.checkpoint(0.8);
+		if (tuzk.getAttempt() === 1) {
+			throw new Error('Flaky');
+		}
+	}, { retryPolicy: { maxAttempts: 2 } });
+	tuzk.onEvent.addListener((e) => events.push(e.data));
+
+	const promise = tuzk.run();
+	tuzk.pause('Busy');
+	await wait(20);
+	tuzk.resume();
+	await promise;
+
+	assertEquals(
+		events.map((e) => e.type).filter((type) => type !== 'progress'),
+		['started', 'paused', 'resumed', 'retried', 'succeeded'],
+	);
+	assertStrictEquals(events.find((e) => e.type === 'paused')?.cause, 'Busy');
+	assertInstanceOf(events.find((e) => e.type === 'retried')?.cause, Error);
+	assert(events.some((e) => e.type === 'progress' && e.progress === 0.5));
+	assert(events.every((e, i) => i === 0 || e.timestamp >= events[i - 1].timestamp));
+});
+
+Deno.test('task history', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		for (let i = 0; i < 10; i++) {
+			await tuzk.checkpoint(i / 10);
+		}
+		throw new Error('Oops');
+	}, { historyLimit: 2 });
+
+	assertEquals(tuzk.getHistory().map((e) => e.type), ['created']);
+	await assertRejects(() => tuzk.run(), Error, 'Oops');
+	assertEquals(tuzk.getHistory().map((e) => e.type), ['started', 'failed']);
+	assertStrictEquals((tuzk.getHistory()[1].cause as Error).message, 'Oops');
+});
+
+Deno.test('manager event stream', async () => {
+	const mgr = new TuzkManager(1);
+	const events: TuzkEvent[] = [];
+	mgr.onEvent.addListener((e) => events.push(e.data));
+
+	const first = mgr.submit(() => {});
+	const second = mgr.submit(() => {});
+	second.cancel();
+	await mgr.waitForAll();
+
+	const types = (task: Tuzk<unknown, string>) =>
+		events.filter((e) => e.task === task && e.type !== 'progress').map((e) => e.type);
+	assertEquals(types(first), ['queued', 'started', 'succeeded']);
+	assertEquals(types(second), ['queued', 'cancelled']);
+	assertInstanceOf(events.find((e) => e.type === 'cancelled')?.cause, errors.CancelledError);
+});
@@ -0,0 +1,32 @@
+import { defineWorkerRunner } from '@/worker.ts';
+import { TimeoutError } from '@/errors.ts';
+
+export type WorkerInput = {
+	steps: number;
+	delay?: number;
+	fail?: 'type' | 'timeout' | 'value' | 'cancel' | 'hang';
+};
+
+defineWorkerRunner(async (task, input: WorkerInput) => {
+	const start = (task.getSnapshot() as number | undefined) ?? 0;
+	for (let step = start + 1; step <= input.steps; step++) {
+		await new Promise((resolve) => setTimeout(resolve, input.delay ?? 0));
+		await task.checkpoint(step / input.steps, step);
+	}
+	switch (input.fail) {
+		case 'type':
+			throw new TypeError('Bad input');
+		case 'timeout':
+			throw new TimeoutError('Too slow');
+		case 'value':
+			throw 42;
+		case 'cancel':
+			task.cancel();
+			await task.checkpoint();
+			break;
+		case 'hang':
+			// Never reaches another checkpoint
+			await new Promise(() => {});
+	}
+	return input.steps * 2;
+});
@@ -0,0 +1,90 @@
+import { assert, assertEquals, assertRejects, assertStrictEquals, assertThrows } from '@std/assert';
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, TuzkGraph, TuzkManager } from '@/index.ts';
+
+Deno.test('graph passes upstream results to downstream', async () => {
+	const order: string[] = [];
+	const graph = new TuzkGraph()
+		.add('a', {
+			run: async () => {
+				await wait(10);
+				order.push('a');
+				return 2;
+			},
+		})
+		.add('b', {
+			run: () => {
+				order.push('b');
+				return 'x';
+			},
+		})
+		.add('c', {
+			dependsOn: ['a', 'b'],
+			run: async ({ a, b }, task) => {
+				await task.checkpoint(0.5);
+				order.push('c');
+				return b.repeat(a);
+			},
+		});
+
+	const handle = graph.submit(new TuzkManager());
+	const results = await handle.wait();
+
+	assertEquals(results, { a: 2, b: 'x', c: 'xx' });
+	assertStrictEquals(order[2], 'c');
+	assertStrictEquals(handle.getProgress(), 1);
+	assert(handle.getTask('c').stateIs('success'));
+});
+
+Deno.test('graph reports missing dependency', () => {
+	const graph = new TuzkGraph()
+		.add('a', { run: () => {} })
+		// @ts-expect-error: 'b' is not registered
+		.add('c', { dependsOn: ['a', 'b'], run: () => {} });
+
+	const error = assertThrows(() => graph.validate(), errors.InvalidGraphError);
+	assertEquals((error as errors.InvalidGraphError).path, ['c', 'b']);
+});
+
+Deno.test('graph reports cycles', () => {
+	const graph = new TuzkGraph()
+		// @ts-expect-error: 'c' is registered later
+		.add('a', { dependsOn: ['c'], run: () => {} })
+		.add('b', { dependsOn: ['a'], run: () => {} })
+		.add('c', { dependsOn: ['b'], run: () => {} });
+
+	const mgr = new TuzkManager();
+	const error = assertThrows(() => graph.submit(mgr), errors.InvalidGraphError);
+	assertEquals((error as errors.InvalidGraphError).path, ['a', 'c', 'b', 'a']);
+	assert(mgr.isAllFinished());
+});
+
+Deno.test('graph rejects when a node fails', async () => {
+	const graph = new TuzkGraph()
+		.add('a', {
+			run: () => {
+				throw new Error('Task failed');
+			},
+		})
+		.add('b', { dependsOn: ['a'], run: () => {} });
+
+	const handle = graph.submit(new TuzkManager(8, { dependencyFailurePolicy: 'skip' }));
+	const error = await assertRejects(() => handle.wait(), errors.AggregateTuzkError);
+	assertStrictEquals((error as errors.AggregateTuzkError).errors.length, 2);
+	assertEquals(handle.getResults(), {});
+});
+
+Deno.test('graph ids that are names of object properties', async () => {
+	const graph = new TuzkGraph()
+		.add('__proto__', { run: () => 1 })
+		.add('constructor', { run: () => 2 })
+		.add('sum', {
+			dependsOn: ['__proto__', 'constructor'],
+			run: (inputs) => inputs['__proto__'] + inputs['constructor'],
+		});
+
+	const results = await graph.submit(new TuzkManager()).wait();
+	assertStrictEquals(results.sum, 3);
+	assertStrictEquals(results['__proto__'], 1);
+	assertEquals(Object.keys(results), ['__proto__', 'constructor', 'sum']);
+});
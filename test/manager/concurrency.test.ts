@@ -0,0 +1,65 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { TuzkManager } from '@/index.ts';
+import { assert, assertStrictEquals } from '@std/assert';
+
+function steps(count: number) {
+	return async (tuzk: { checkpoint(progress?: number): Promise<void> }) => {
+		for (let i = 0; i < count; i++) {
+			await wait(10);
+			await tuzk.checkpoint(i / count);
+		}
+	};
+}
+
+Deno.test('raising concurrency activates pending tasks immediately', async () => {
+	const mgr = new TuzkManager(1);
+	const tasks = [mgr.submit(steps(5)), mgr.submit(steps(5)), mgr.submit(steps(5))];
+	assertStrictEquals(tasks.filter((t) => t.isActive()).length, 1);
+
+	mgr.concurrency = 3;
+	assert(tasks.every((t) => t.isActive()));
+
+	await mgr.waitForAll();
+});
+
+Deno.test('lowering concurrency pauses excess tasks', async () => {
+	const mgr = new TuzkManager(3, { pauseExcessTasks: true });
+	const tasks = [mgr.submit(steps(5)), mgr.submit(steps(5)), mgr.submit(steps(5))];
+
+	mgr.concurrency = 1;
+	await wait(30);
+	assert(tasks[0].stateIs('running'));
+	assert(tasks[1].stateIs('paused'));
+	assert(tasks[2].stateIs('paused'));
+
+	await mgr.waitForAll();
+	assert(tasks.every((t) => t.stateIs('success')));
+});
+
+Deno.test('lowering concurrency without pausing lets running tasks finish', async () => {
+	const mgr = new TuzkManager(2);
+	const tasks = [mgr.submit(steps(3)), mgr.submit(steps(3)), mgr.submit(steps(3))];
+
+	mgr.concurrency = 1;
+	await wait(15);
+	assert(tasks[0].stateIs('running'));
+	assert(tasks[1].stateIs('running'));
+	assert(tasks[2].stateIs('pending'));
+
+	await mgr.waitForAll();
+});
+
+Deno.test('group concurrency limits', async () => {
+	const mgr = new TuzkManager(8, { groupConcurrency: { disk: 2 } });
+	const disk = [0, 1, 2, 3].map(() => mgr.submit(steps(3), { group: 'disk' }));
+	const network = [0, 1, 2].map(() => mgr.submit(steps(3), { group: 'network' }));
+
+	assertStrictEquals(disk.filter((t) => t.isActive()).length, 2);
+	assert(network.every((t) => t.isActive()));
+	assertStrictEquals(mgr.getGroupConcurrency('network'), Infinity);
+
+	mgr.setGroupConcurrency('disk', undefined);
+	assert(disk.every((t) => t.isActive()));
+
+	await mgr.waitForAll();
+});
@@ -0,0 +1,131 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, TuzkManager } from '@/index.ts';
+import { assert, assertStrictEquals, assertThrows } from '@std/assert';
+
+function steps(count: number) {
+	return async (tuzk: { checkpoint(progress?: number): Promise<void> }) => {
+		for (let i = 0; i < count; i++) {
+			await wait(10);
+			await tuzk.checkpoint(i / count);
+		}
+	};
+}
+
+Deno.test('pause and resume all tasks', async () => {
+	const mgr = new TuzkManager(1);
+	const active = mgr.submit(steps(5));
+	const queued = mgr.submit(steps(1));
+
+	mgr.pauseAll();
+	assert(mgr.isPaused());
+	await wait(30);
+	assert(active.stateIs('paused'));
+
+	// Finishing a task doesn't activate pending tasks while paused
+	active.resume();
+	await wait(80);
+	assert(active.stateIs('success'));
+	assert(queued.stateIs('pending'));
+
+	mgr.resumeAll();
+	await mgr.waitForAll();
+	assert(queued.stateIs('success'));
+});
+
+Deno.test('resume all keeps tasks paused individually', async () => {
+	const mgr = new TuzkManager(2);
+	const paused = mgr.submit(steps(5));
+	const active = mgr.submit(steps(5));
+
+	paused.pause();
+	await wait(15);
+	assert(paused.stateIs('paused'));
+
+	mgr.pauseAll();
+	await wait(15);
+	assert(active.stateIs('paused'));
+
+	mgr.resumeAll();
+	assert(active.stateIs('running'));
+	assert(paused.stateIs('paused'));
+
+	paused.resume();
+	await mgr.waitForAll();
+});
+
+Deno.test('cancel all tasks', async () => {
+	const mgr = new TuzkManager(1);
+	const active = mgr.submit(steps(5));
+	const queued = mgr.submit(steps(1));
+
+	mgr.cancelAll();
+	await mgr.waitForAll();
+
+	assert(active.stateIs('cancelled'));
+	assert(queued.stateIs('cancelled'));
+});
+
+Deno.test('cancel all without starting queued tasks', async () => {
+	const mgr = new TuzkManager(1);
+	let started = 0;
+	const runner = async (tuzk: { checkpoint(): Promise<void> }) => {
+		started++;
+		await wait(10);
+		await tuzk.checkpoint();
+	};
+	mgr.submit(runner);
+	const queued = [mgr.submit(runner), mgr.submit(runner), mgr.submit(runner)];
+
+	mgr.cancelAll();
+	await mgr.waitForAll();
+
+	assertStrictEquals(started, 1);
+	assert(queued.every((task) => task.stateIs('cancelled')));
+});
+
+Deno.test('cancel all without starting dependents of cancelled tasks', async () => {
+	const mgr = new TuzkManager(8, { groupConcurrency: { io: 1 } });
+	let started = false;
+	mgr.submit(steps(2), { group: 'io' });
+	const queued = mgr.submit(steps(1), { group: 'io' });
+	const dependent = mgr.submit(() => {
+		started = true;
+	}, { dependencies: [queued], dependencyFailurePolicy: 'run' });
+
+	mgr.cancelAll();
+	await mgr.waitForAll();
+
+	assert(!started);
+	assert(dependent.stateIs('cancelled'));
+});
+
+Deno.test('remove a pending task', async () => {
+	const mgr = new TuzkManager(1);
+	const active = mgr.submit(steps(2));
+	const queued = mgr.submit(steps(1));
+	const dependent = mgr.submit(steps(1), [queued]);
+
+	assert(mgr.remove(queued));
+	assert(!mgr.remove(active));
+	await mgr.waitForAll();
+
+	assert(queued.stateIs('pending'));
+	assert(dependent.stateIs('cancelled'));
+
+	// Can be submitted again
+	mgr.submit(queued);
+	await mgr.waitForAll();
+	assert(queued.stateIs('success'));
+});
+
+Deno.test('drain stops accepting tasks', async () => {
+	const mgr = new TuzkManager(2);
+	const tasks = [mgr.submit(steps(2)), mgr.submit(steps(2)), mgr.submit(steps(2))];
+
+	const drained = mgr.drain();
+	assert(mgr.isDraining());
+	assertThrows(() => mgr.submit(steps(1)), errors.TuzkError);
+
+	await drained;
+	assertStrictEquals(tasks.filter((task) => task.stateIs('success')).length, 3);
+});
@@ -0,0 +1,146 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, type Tuzk, TuzkManager } from '@/index.ts';
+import { assert, assertEquals, assertInstanceOf, assertRejects, assertStrictEquals } from '@std/assert';
+
+function failing(): () => Promise<void> {
+	return async () => {
+		await wait(10);
+		throw new Error('Task failed');
+	};
+}
+
+Deno.test('dependents are cancelled when dependency fails', async () => {
+	const mgr = new TuzkManager();
+	const blocked: Tuzk<unknown, string>[] = [];
+	mgr.onTaskBlocked.addListener((e) => blocked.push(e.data[0]));
+
+	const a = mgr.submit(failing());
+	const b = mgr.submit(() => {}, [a]);
+	const c = mgr.submit(() => {}, [b]);
+
+	await mgr.waitForAll();
+
+	assert(a.stateIs('failed'));
+	assert(b.stateIs('cancelled'));
+	assert(c.stateIs('cancelled'));
+	assertInstanceOf(b.error, errors.DependencyFailedError);
+	assertStrictEquals((b.error as errors.DependencyFailedError).dependency, a);
+	assertStrictEquals((c.error as errors.DependencyFailedError).dependency, b);
+	assertEquals(blocked, [b, c]);
+});
+
+Deno.test('dependents are skipped when dependency fails', async () => {
+	const mgr = new TuzkManager(8, { dependencyFailurePolicy: 'skip' });
+	const skipped: Tuzk<unknown, string>[] = [];
+	mgr.onTaskSkipped.addListener((e) => skipped.push(e.data[0]));
+
+	const a = mgr.submit(failing());
+	const b = mgr.submit(() => {}, [a]);
+	const c = mgr.submit(() => {}, [b]);
+	const d = mgr.submit(() => {});
+
+	await mgr.waitForAll();
+
+	assert(b.stateIs('cancelled'));
+	assert(c.stateIs('cancelled'));
+	assert(d.stateIs('success'));
+	assertInstanceOf(b.error, errors.SkippedError);
+	assertStrictEquals((b.error as errors.SkippedError).dependency, a);
+	assertStrictEquals((c.error as errors.SkippedError).dependency, b);
+	assertEquals(skipped, [b, c]);
+	assertEquals(mgr.countByState().pending, 0);
+});
+
+Deno.test('skipped dependencies are not failures', async () => {
+	const mgr = new TuzkManager();
+	const blocked: Tuzk<unknown, string>[] = [];
+	mgr.onTaskBlocked.addListener((e) => blocked.push(e.data[0]));
+
+	const a = mgr.submit(failing());
+	const b = mgr.submit(() => {}, { dependencies: [a], dependencyFailurePolicy: 'skip' });
+	// Skipped rather than cancelled, although their policy is `cancel`
+	const c = mgr.submit(() => {}, [b]);
+	const d = mgr.submit(() => {}, [c]);
+	let ran = false;
+	const e = mgr.submit(() => {
+		ran = true;
+	}, { dependencies: [b], dependencyFailurePolicy: 'run' });
+
+	await mgr.waitForAll();
+
+	assertInstanceOf(c.error, errors.SkippedError);
+	assertInstanceOf(d.error, errors.SkippedError);
+	assert(!(c.error instanceof errors.DependencyFailedError));
+	assertEquals(blocked, [b]);
+	assert(ran);
+	assert(e.stateIs('success'));
+});
+
+Deno.test('awaiting a skipped task', async () => {
+	const mgr = new TuzkManager(8, { dependencyFailurePolicy: 'skip' });
+
+	const a = mgr.submit(failing());
+	const b = mgr.submit(() => {}, [a]);
+	const events: string[] = [];
+	const iterated = (async () => {
+		for await (const event of b.events()) {
+			events.push(event.type);
+		}
+	})();
+
+	await assertRejects(async () => await b, errors.SkippedError);
+	await iterated;
+	assertEquals(events.at(-1), 'cancelled');
+});
+
+Deno.test('dependents run anyway when policy is run', async () => {
+	const mgr = new TuzkManager();
+
+	const a = mgr.submit(failing());
+	const b = mgr.submit(() => {}, { dependencies: [a], dependencyFailurePolicy: 'run' });
+
+	await mgr.waitForAll();
+
+	assert(a.stateIs('failed'));
+	assert(b.stateIs('success'));
+});
+
+Deno.test('submitting with an already failed dependency', async () => {
+	const mgr = new TuzkManager();
+
+	const a = mgr.submit(failing());
+	await mgr.waitForAll();
+
+	const b = mgr.submit(() => {}, [a]);
+	await mgr.waitForAll();
+
+	assert(b.stateIs('cancelled'));
+});
+
+Deno.test('cancel a queued task', async () => {
+	const mgr = new TuzkManager(1);
+
+	mgr.submit(async () => await wait(10));
+	const queued = mgr.submit(() => {});
+	queued.cancel();
+
+	assert(queued.stateIs('cancelled'));
+	await mgr.waitForAll();
+	assert(queued.stateIs('cancelled'));
+});
+
+Deno.test('waiting for a dependency running in another manager', async () => {
+	const mgrA = new TuzkManager();
+	const mgrB = new TuzkManager();
+
+	const a = mgrA.submit(async () => await wait(10));
+	const b = mgrB.submit(() => {}, [a]);
+
+	await wait(0);
+	assert(a.stateIs('running'));
+	assert(b.stateIs('pending'));
+
+	await mgrB.waitForAll();
+	assert(a.stateIs('success'));
+	assert(b.stateIs('success'));
+});
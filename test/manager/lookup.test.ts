@@ -0,0 +1,53 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk, TuzkManager, TuzkState } from '@/index.ts';
+import { assert, assertEquals, assertStrictEquals, assertThrows } from '@std/assert';
+
+Deno.test('task metadata', () => {
+	const tuzk = new Tuzk<void>(() => {}, { id: 'a', name: 'Download', tags: ['net'], metadata: { url: 'x' } });
+	assertStrictEquals(tuzk.id, 'a');
+	assert(tuzk.tags.has('net'));
+	assertEquals(tuzk.metadata, { url: 'x' });
+	assertStrictEquals(`${tuzk}`, 'Tuzk(Download, a)');
+
+	assert(new Tuzk<void>(() => {}).id !== new Tuzk<void>(() => {}).id);
+});
+
+Deno.test('find tasks in manager', async () => {
+	const mgr = new TuzkManager(1);
+	const a = mgr.submit(new Tuzk(() => wait(10), { id: 'a', tags: ['net'] }));
+	const b = mgr.submit(new Tuzk(() => wait(10), { id: 'b', tags: ['net', 'slow'], name: 'B' }));
+	const c = mgr.submit(new Tuzk(() => wait(10), { id: 'c' }));
+
+	assertStrictEquals(mgr.getTask('b'), b);
+	assertStrictEquals(mgr.getTask('x'), undefined);
+	assertEquals(mgr.getTasks(), [a, b, c]);
+	assertEquals(mgr.getTasks({ tag: 'net' }), [a, b]);
+	assertEquals(mgr.getTasks({ name: 'B' }), [b]);
+	assertEquals(mgr.getTasks({ state: 'pending', tag: 'net' }), [b]);
+	assertEquals(mgr.getTasks({ state: [TuzkState.Running, TuzkState.Pending] }), [a, b, c]);
+
+	c.cancel();
+	assertEquals(mgr.countByState(), {
+		[TuzkState.Pending]: 1,
+		[TuzkState.Running]: 1,
+		[TuzkState.Paused]: 0,
+		[TuzkState.Success]: 0,
+		[TuzkState.Failed]: 0,
+		[TuzkState.Cancelled]: 1,
+	});
+
+	await mgr.waitForAll();
+	assertEquals(mgr.getTasks({ state: 'success' }), [a, b]);
+});
+
+Deno.test('reject duplicate ids and foreign tasks', () => {
+	const mgr = new TuzkManager();
+	mgr.pauseAll();
+	mgr.submit(new Tuzk(() => {}, { id: 'a' }));
+	assertThrows(() => mgr.submit(new Tuzk(() => {}, { id: 'a' })), errors.TuzkError, 'Duplicate task id: a');
+
+	const other = new TuzkManager();
+	other.pauseAll();
+	const tuzk = other.submit(new Tuzk(() => {}, { name: 'Upload' }));
+	assertThrows(() => mgr.submit(tuzk), errors.TuzkError, 'Tuzk(Upload');
+});
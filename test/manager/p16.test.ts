@@ -1,17 +1,21 @@
-import { wait } from '@leawind/inventory/test_utils';
 import { TuzkManager } from '@/manager.ts';
+import { VirtualClock } from '@/testing.ts';
+import { assertStrictEquals } from '@std/assert';
 
 Deno.test('parallel = 16', async () => {
-	const mgr = new TuzkManager();
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock });
 
 	mgr.concurrency = 16;
 
 	for (let i = 0; i < 64; i++) {
-		mgr.submit(async () => {
-			await wait(100);
+		mgr.submit(async (task) => {
+			await task.sleep(100);
 			return i;
 		});
 	}
 
+	await clock.runAll();
 	await mgr.waitForAll();
+	assertStrictEquals(clock.now(), 400);
 });
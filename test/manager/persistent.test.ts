@@ -0,0 +1,102 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, MemoryTuzkStorage, Tuzk, type TuzkFactory, TuzkManager } from '@/index.ts';
+import { assert, assertEquals, assertRejects, assertStrictEquals, assertThrows } from '@std/assert';
+
+type ImportParams = { rows: number };
+type ImportSnapshot = { row: number };
+
+function createImport(imported: number[]): TuzkFactory<ImportParams, number> {
+	return (params) => async (task) => {
+		const snapshot = task.getSnapshot() as ImportSnapshot | undefined;
+		for (let row = snapshot?.row ?? 0; row < params.rows; row++) {
+			await wait(5);
+			imported.push(row);
+			await task.checkpoint((row + 1) / params.rows, { row: row + 1 });
+		}
+		return params.rows;
+	};
+}
+
+Deno.test('persistent task resumes from its snapshot', async () => {
+	const storage = new MemoryTuzkStorage();
+	const imported: number[] = [];
+
+	const before = new TuzkManager(8, { storage, types: { import: createImport(imported) } });
+	const task = before.submitPersistent<ImportParams>('import', { rows: 6 }, { id: 'import' });
+	await wait(18);
+	// Simulate a crash
+	task.pause();
+	await wait(10);
+	assert(task.stateIs('paused'));
+	await before.flushStorage();
+
+	const [record] = await storage.load();
+	assertStrictEquals(record.id, 'import');
+	assert(record.progress > 0);
+
+	const after = new TuzkManager(8, { storage });
+	after.registerType('import', createImport(imported));
+	const [restored] = await after.rehydrate();
+	await after.waitForAll();
+	await after.flushStorage();
+
+	// Rows imported before the crash are not imported again
+	assertStrictEquals(restored.getResult(), 6);
+	assertEquals(imported, [0, 1, 2, 3, 4, 5]);
+	assertEquals(await storage.load(), []);
+});
+
+Deno.test('rehydrate keeps dependencies', async () => {
+	const storage = new MemoryTuzkStorage();
+	const order: string[] = [];
+	const types = {
+		step: (name: string) => () => void order.push(name),
+	};
+
+	const before = new TuzkManager(8, { storage, types });
+	before.pauseAll();
+	const first = before.submitPersistent('step', 'first');
+	before.submitPersistent('step', 'second', { dependencies: [first], priority: 1 });
+	await before.flushStorage();
+
+	const after = new TuzkManager(8, { storage, types });
+	const restored = await after.rehydrate();
+	assertStrictEquals(restored.length, 2);
+	await after.waitForAll();
+	assertEquals(order, ['first', 'second']);
+});
+
+Deno.test('persistent tasks require storage and registered type', async () => {
+	assertThrows(() => new TuzkManager().submitPersistent('step', null), errors.TuzkError, 'storage');
+
+	const storage = new MemoryTuzkStorage();
+	assertThrows(() => new TuzkManager(8, { storage }).submitPersistent('step', null), errors.TuzkError, 'Unknown');
+
+	await storage.save({ id: 'a', type: 'step', params: null, progress: 0, priority: 0, dependencies: [] });
+	await assertRejects(() => new TuzkManager(8, { storage }).rehydrate(), errors.TuzkError, 'Unknown');
+});
+
+Deno.test('rehydrate submits nothing if ids are duplicated', async () => {
+	const record = { id: 'a', type: 'step', params: null, progress: 0, priority: 0, dependencies: [] };
+	const types = { step: () => () => {} };
+
+	const storage = new MemoryTuzkStorage();
+	await storage.save(record);
+	await storage.save({ ...record, id: 'b' });
+	const mgr = new TuzkManager(8, { storage, types });
+	mgr.submit(new Tuzk(() => {}, { id: 'b' }));
+	await assertRejects(() => mgr.rehydrate(), errors.TuzkError, 'Duplicate task id: b');
+	assertEquals(mgr.getTasks().map((task) => task.id), ['b']);
+	assertStrictEquals((await storage.load()).length, 2);
+
+	const duplicated = new TuzkManager(8, {
+		storage: {
+			load: () => Promise.resolve([record, { ...record, dependencies: ['a'] }]),
+			save: () => Promise.resolve(),
+			delete: () => Promise.resolve(),
+		},
+		types,
+	});
+	await assertRejects(() => duplicated.rehydrate(), errors.TuzkError, 'Duplicate task id: a');
+	assertEquals(duplicated.getTasks(), []);
+});
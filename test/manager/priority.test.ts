@@ -0,0 +1,53 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { TuzkManager } from '@/manager.ts';
+import { assertEquals, assertStrictEquals } from '@std/assert';
+
+Deno.test('higher priority tasks start first', async () => {
+	const mgr = new TuzkManager(1);
+	const order: string[] = [];
+
+	mgr.submit(async () => await wait(20));
+	mgr.submit(() => void order.push('low-1'), { priority: 0 });
+	mgr.submit(() => void order.push('high'), { priority: 10 });
+	mgr.submit(() => void order.push('low-2'));
+	mgr.submit(() => void order.push('mid'), { priority: 5 });
+
+	await mgr.waitForAll();
+
+	assertEquals(order, ['high', 'mid', 'low-1', 'low-2']);
+});
+
+Deno.test('change priority of a queued task', async () => {
+	const mgr = new TuzkManager(1);
+	const order: string[] = [];
+
+	mgr.submit(async () => await wait(20));
+	mgr.submit(() => void order.push('a'));
+	const b = mgr.submit(() => void order.push('b'));
+	mgr.submit(() => void order.push('c'));
+
+	assertStrictEquals(mgr.getPriority(b), 0);
+	mgr.setPriority(b, 1);
+	assertStrictEquals(mgr.getPriority(b), 1);
+
+	await mgr.waitForAll();
+
+	assertEquals(order, ['b', 'a', 'c']);
+});
+
+Deno.test('priority does not bypass dependencies', async () => {
+	const mgr = new TuzkManager(1);
+	const order: string[] = [];
+
+	const a = mgr.submit(async () => {
+		await wait(20);
+		order.push('a');
+	});
+	const b = mgr.submit(() => void order.push('b'));
+	mgr.submit(() => void order.push('c'), { dependencies: [b], priority: 10 });
+
+	await mgr.waitForAll();
+
+	assertStrictEquals(a.getState(), 'success');
+	assertEquals(order, ['a', 'b', 'c']);
+});
@@ -1,20 +1,14 @@
-import { TimeRuler, wait } from '@leawind/inventory/test_utils';
 import { TuzkManager } from '@/manager.ts';
+import { VirtualClock } from '@/testing.ts';
 
 Deno.test('Random test', async () => {
-	const tr = new TimeRuler(0);
-	const mgr = new TuzkManager(32);
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(32, { clock });
 
-	const starts: number[] = [];
 	for (let i = 0; i < 100; i++) {
-		starts.push(Math.random() * 100);
-	}
-	starts.sort();
-
-	for (const start of starts) {
-		await tr.til(start);
-		mgr.submit(async () => await wait(Math.random() * 100));
+		clock.setTimeout(() => mgr.submit(async (task) => await task.sleep(Math.random() * 100)), Math.random() * 100);
 	}
 
+	await clock.runAll();
 	await mgr.waitForAll();
 });
@@ -0,0 +1,60 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, TuzkManager } from '@/index.ts';
+import { TokenBucket } from '@/rate_limit.ts';
+import { assert, assertStrictEquals, assertThrows } from '@std/assert';
+
+Deno.test('token bucket', () => {
+	const bucket = new TokenBucket({ limit: 2, interval: 100, burst: 3 }, 0);
+	assertStrictEquals(bucket.getCapacity(), 3);
+
+	assert(bucket.tryTake(0));
+	assert(bucket.tryTake(0));
+	assert(bucket.tryTake(0));
+	assert(!bucket.tryTake(0));
+	assertStrictEquals(bucket.getWaitTime(0), 50);
+
+	assert(bucket.tryTake(50));
+	assert(!bucket.tryTake(60));
+});
+
+Deno.test('invalid rate limits', () => {
+	assertThrows(() => new TokenBucket({ limit: 0 }), errors.TuzkError, 'positive');
+	assertThrows(() => new TokenBucket({ limit: NaN }), errors.TuzkError, 'positive');
+	assertThrows(() => new TokenBucket({ limit: 1, interval: 0 }), errors.TuzkError, 'interval');
+	assertThrows(() => new TokenBucket({ limit: 1, interval: -100 }), errors.TuzkError, 'interval');
+	assertThrows(() => new TokenBucket({ limit: 1, burst: 0.5 }), errors.TuzkError, 'burst');
+	assertThrows(() => new TuzkManager(1).setRateLimit({ limit: -1 }), errors.TuzkError);
+});
+
+Deno.test('rate limited tasks stay pending', async () => {
+	const mgr = new TuzkManager(8, { rateLimit: { limit: 2, interval: 100 } });
+	const tasks = [0, 1, 2, 3].map(() => mgr.submit(() => {}));
+
+	assert(!tasks[1].stateIs('pending'));
+	assert(tasks[2].stateIs('pending'));
+	assert(tasks[3].stateIs('pending'));
+	assert(mgr.getNextSlotTime() > Date.now());
+
+	await wait(60);
+	assert(!tasks[2].stateIs('pending'));
+	assert(tasks[3].stateIs('pending'));
+
+	await mgr.waitForAll();
+	assert(tasks.every((t) => t.stateIs('success')));
+});
+
+Deno.test('group rate limit', async () => {
+	const mgr = new TuzkManager(8, { groupRateLimits: { api: { limit: 1, interval: 50 } } });
+	const api = [0, 1].map(() => mgr.submit(() => {}, { group: 'api' }));
+	const other = [0, 1].map(() => mgr.submit(() => {}));
+
+	assert(!api[0].stateIs('pending'));
+	assert(api[1].stateIs('pending'));
+	assert(other.every((t) => !t.stateIs('pending')));
+	assert(mgr.getNextSlotTime('api') > mgr.getNextSlotTime());
+
+	mgr.setGroupRateLimit('api', undefined);
+	assert(!api[1].stateIs('pending'));
+
+	await mgr.waitForAll();
+});
@@ -0,0 +1,93 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk, TuzkManager, type TuzkSummary } from '@/index.ts';
+import { VirtualClock } from '@/testing.ts';
+import { assertEquals, assertInstanceOf, assertStrictEquals, assertThrows } from '@std/assert';
+
+function fail(): never {
+	throw new Error('Oops');
+}
+
+Deno.test('keep last finished tasks', async () => {
+	const evicted: TuzkSummary[] = [];
+	const mgr = new TuzkManager(1, { retention: { maxFinished: 2 } });
+	mgr.onTaskEvicted.addListener((e) => evicted.push(e.data));
+
+	const tasks = [0, 1, 2, 3].map((i) => mgr.submit(new Tuzk(() => {}, { id: `${i}`, name: `Task ${i}` })));
+	await mgr.waitForAll();
+
+	assertEquals(mgr.getTasks(), tasks.slice(2));
+	assertEquals(evicted.map((summary) => summary.id), ['0', '1']);
+	assertStrictEquals(evicted[0].name, 'Task 0');
+	assertStrictEquals(evicted[0].state, 'success');
+	assertStrictEquals(mgr.getTask('0'), undefined);
+});
+
+Deno.test('drop finished tasks after ttl', async () => {
+	const mgr = new TuzkManager(8, { retention: { ttl: 20 } });
+	const task = mgr.submit(() => {});
+	await mgr.waitForAll();
+
+	assertEquals(mgr.getTasks(), [task]);
+	await wait(30);
+	assertEquals(mgr.getTasks(), []);
+});
+
+Deno.test('evict expired tasks of an idle manager', async () => {
+	const clock = new VirtualClock();
+	const evicted: string[] = [];
+	const mgr = new TuzkManager(8, { clock, retention: { ttl: 100 } });
+	mgr.onTaskEvicted.addListener((e) => evicted.push(e.data.id));
+
+	mgr.submit(new Tuzk(() => {}, { id: 'a' }));
+	await clock.advance(50);
+	mgr.submit(new Tuzk(() => {}, { id: 'b' }));
+	await mgr.waitForAll();
+
+	await clock.advance(50);
+	assertEquals(evicted, ['a']);
+	await clock.advance(50);
+	assertEquals(evicted, ['a', 'b']);
+	assertStrictEquals(clock.getTimerCount(), 0);
+});
+
+Deno.test('drain cancels the eviction timer', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock, retention: { ttl: 100 } });
+	mgr.submit(() => {});
+	await mgr.waitForAll();
+	assertStrictEquals(clock.getTimerCount(), 1);
+
+	await mgr.drain();
+	assertStrictEquals(clock.getTimerCount(), 0);
+});
+
+Deno.test('keep only failures', async () => {
+	const mgr = new TuzkManager(8, { retention: { keep: 'failures' } });
+	mgr.submit(() => {});
+	const failed = mgr.submit(fail);
+	await mgr.waitForAll();
+
+	assertEquals(mgr.getTasks(), [failed]);
+	assertStrictEquals(mgr.countByState().success, 0);
+});
+
+Deno.test('depend on evicted tasks', async () => {
+	const mgr = new TuzkManager(8, { retention: { maxFinished: 0 } });
+	const succeeded = mgr.submit(() => {});
+	const failed = mgr.submit(fail);
+	await mgr.waitForAll();
+	assertEquals(mgr.getTasks(), []);
+
+	const afterSuccess = mgr.submit(() => {}, [succeeded]);
+	const afterFailure = mgr.submit(() => {}, [failed]);
+	await mgr.waitForAll();
+
+	assertStrictEquals(afterSuccess.getState(), 'success');
+	assertStrictEquals(afterFailure.getState(), 'cancelled');
+	assertInstanceOf(afterFailure.error, errors.DependencyFailedError);
+});
+
+Deno.test('depend on an unsubmitted task', () => {
+	const mgr = new TuzkManager();
+	assertThrows(() => mgr.submit(() => {}, [new Tuzk(() => {})]), errors.TuzkError, 'not submitted');
+});
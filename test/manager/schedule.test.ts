@@ -0,0 +1,172 @@
+import { errors, Tuzk, TuzkManager } from '@/index.ts';
+import { VirtualClock } from '@/testing.ts';
+import { assertEquals, assertInstanceOf, assertStrictEquals, assertThrows } from '@std/assert';
+
+Deno.test('run once after delay or at time', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock });
+	const delayed = mgr.schedule(() => {}, { delay: 100 });
+	const timed = mgr.schedule(() => {}, { at: new Date(250) });
+
+	assertStrictEquals(delayed.getNextRunTime(), 100);
+	assertStrictEquals(timed.getNextRunTime(), 250);
+	assertEquals(mgr.getSchedules(), [delayed, timed]);
+
+	await clock.advance(99);
+	assertStrictEquals(delayed.task.getRunCount(), 0);
+	await clock.advance(1);
+	await mgr.waitForAll();
+	assertStrictEquals(delayed.task.getRunCount(), 1);
+	assertStrictEquals(delayed.isStopped(), true);
+
+	await clock.advance(200);
+	await mgr.waitForAll();
+	assertStrictEquals(timed.task.getRunCount(), 1);
+	assertEquals(mgr.getSchedules(), []);
+});
+
+Deno.test('run every interval as new runs', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock });
+	let value = 0;
+	const handle = mgr.schedule(() => ++value, { every: 100 });
+
+	await clock.advance(350);
+	await mgr.waitForAll();
+	assertStrictEquals(handle.task.getRunCount(), 3);
+	assertEquals(handle.task.getRuns().map((run) => run.result), [1, 2, 3]);
+	assertStrictEquals(handle.getNextRunTime(), 400);
+	assertStrictEquals(mgr.getTask(handle.task.id), handle.task);
+
+	handle.stop();
+	await clock.advance(500);
+	assertStrictEquals(handle.task.getRunCount(), 3);
+});
+
+Deno.test('run on cron expression', async () => {
+	const start = new Date(2024, 0, 1, 8, 30).getTime();
+	const clock = new VirtualClock(start);
+	const mgr = new TuzkManager(8, { clock });
+	const handle = mgr.schedule(() => {}, { cron: '0 9 * * *' });
+
+	assertStrictEquals(handle.getNextRunTime(), new Date(2024, 0, 1, 9, 0).getTime());
+	await clock.advance(30 * 60_000);
+	await mgr.waitForAll();
+	assertStrictEquals(handle.task.getRunCount(), 1);
+	assertStrictEquals(handle.getNextRunTime(), new Date(2024, 0, 2, 9, 0).getTime());
+	handle.stop();
+
+	assertThrows(() => mgr.schedule(() => {}, { cron: '* * *' }));
+});
+
+/**
+ * A task that runs until {@link release} is called
+ */
+function blockingTask() {
+	let release = () => {};
+	const task = new Tuzk<void>(async (task) => {
+		await new Promise<void>((resolve) => release = resolve);
+		await task.checkpoint();
+	});
+	return { task, release: () => release() };
+}
+
+Deno.test('skip overlapping runs', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock });
+	const { task, release } = blockingTask();
+	const skipped: number[] = [];
+	const handle = mgr.schedule(task, { every: 100 }, { overlap: 'skip' });
+	handle.onSkipped.addListener((e) => skipped.push(e.data));
+
+	await clock.advance(300);
+	assertEquals(skipped, [200, 300]);
+	assertStrictEquals(handle.getOccurrenceCount(), 3);
+
+	release();
+	await mgr.waitForAll();
+	assertStrictEquals(task.getRunCount(), 1);
+	handle.stop();
+});
+
+Deno.test('queue overlapping runs', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock });
+	const { task, release } = blockingTask();
+	const handle = mgr.schedule(task, { every: 100 }, { overlap: 'queue' });
+
+	await clock.advance(300);
+	assertStrictEquals(task.getRunCount(), 1);
+
+	// Two due runs are merged into one
+	release();
+	await clock.advance(0);
+	assertStrictEquals(task.getRunCount(), 2);
+	assertStrictEquals(task.getRuns()[0].state, 'success');
+
+	handle.stop();
+	release();
+	await mgr.waitForAll();
+	assertStrictEquals(task.getRunCount(), 2);
+});
+
+Deno.test('cancel overlapping runs', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock });
+	const { task, release } = blockingTask();
+	const handle = mgr.schedule(task, { every: 100 }, { overlap: 'cancel' });
+
+	await clock.advance(200);
+	release();
+	await clock.advance(0);
+	assertStrictEquals(task.getRunCount(), 2);
+	assertStrictEquals(task.getRuns()[0].state, 'cancelled');
+
+	handle.stop();
+	release();
+	await mgr.waitForAll();
+	assertStrictEquals(task.getRuns()[1].state, 'success');
+});
+
+Deno.test('drain stops schedules', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock });
+	const handle = mgr.schedule(() => {}, { every: 100 });
+
+	await mgr.drain();
+	assertStrictEquals(handle.isStopped(), true);
+	assertThrows(() => mgr.schedule(() => {}, { delay: 0 }));
+	await clock.advance(200);
+	assertStrictEquals(handle.task.getRunCount(), 0);
+});
+
+Deno.test('schedule rejects tasks it cannot submit', () => {
+	const mgr = new TuzkManager();
+	const other = new TuzkManager();
+	const owned = other.submit(() => {});
+	mgr.submit(new Tuzk(() => {}, { id: 'a' }));
+
+	assertThrows(() => mgr.schedule(owned, { delay: 0 }), errors.TuzkError, 'another manager');
+	assertThrows(() => mgr.schedule(new Tuzk(() => {}, { id: 'a' }), { delay: 0 }), errors.TuzkError, 'Duplicate');
+	assertEquals(mgr.getSchedules(), []);
+});
+
+Deno.test('schedule reports errors of later runs', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock, retention: { maxFinished: 0 } });
+	const other = new TuzkManager();
+	const handle = mgr.schedule(() => {}, { every: 100 });
+	const errorsOfRuns: unknown[] = [];
+	handle.onError.addListener((e) => errorsOfRuns.push(e.data));
+
+	await clock.advance(100);
+	await mgr.waitForAll();
+	// Evicted, then taken by another manager
+	other.submit(handle.task);
+	await other.waitForAll();
+
+	await clock.advance(100);
+	assertStrictEquals(handle.isStopped(), true);
+	assertStrictEquals(errorsOfRuns.length, 1);
+	assertInstanceOf(errorsOfRuns[0], errors.TuzkError);
+});
@@ -0,0 +1,69 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk, TuzkManager } from '@/index.ts';
+import { assert, assertAlmostEquals, assertStrictEquals, assertThrows } from '@std/assert';
+
+function steady(steps: number, interval: number) {
+	return async (tuzk: { checkpoint(progress?: number): Promise<void> }) => {
+		for (let i = 1; i <= steps; i++) {
+			await wait(interval);
+			await tuzk.checkpoint(i / steps);
+		}
+	};
+}
+
+Deno.test('rate and eta', async () => {
+	const tuzk = new Tuzk<void>(steady(10, 20));
+	assertStrictEquals(tuzk.getEta(), undefined);
+
+	const promise = tuzk.run();
+	await wait(110);
+	// 0.1 progress per 20ms
+	assertAlmostEquals(tuzk.getRate(), 5, 1.5);
+	const eta = tuzk.getEta()!;
+	assert(eta > 50 && eta < 200, `${eta}`);
+
+	await promise;
+	assertStrictEquals(tuzk.getEta(), 0);
+	assertStrictEquals(tuzk.getRate(), 0);
+	assert(tuzk.getElapsedTime() >= 200);
+});
+
+Deno.test('active time excludes paused time', async () => {
+	const tuzk = new Tuzk<void>(steady(4, 10));
+	const promise = tuzk.run();
+	tuzk.pause();
+	await wait(50);
+	tuzk.resume();
+	await promise;
+
+	assert(tuzk.getElapsedTime() >= 80);
+	assert(tuzk.getActiveTime() < tuzk.getElapsedTime() - 30);
+});
+
+Deno.test('progress in units', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		tuzk.setUnits(256);
+		await wait(20);
+		tuzk.setUnits(512);
+		assertThrows(() => tuzk.setUnits(2048), errors.TuzkError);
+	}, { total: 1024 });
+	await tuzk.run();
+	assertStrictEquals(tuzk.getDoneUnits(), 1024);
+
+	assertThrows(() => new Tuzk<void>(() => {}).setUnits(1), errors.TuzkError);
+});
+
+Deno.test('aggregate eta of manager', async () => {
+	const mgr = new TuzkManager(2);
+	assertStrictEquals(mgr.getEta(), 0);
+
+	mgr.submit(steady(10, 10));
+	mgr.submit(steady(10, 10));
+	mgr.submit(steady(10, 10));
+	assertStrictEquals(mgr.getEta(), undefined);
+
+	await wait(50);
+	assert(mgr.getEta()! > 0);
+	await mgr.waitForAll();
+	assertStrictEquals(mgr.getEta(), 0);
+});
@@ -0,0 +1,91 @@
+import { errors, Tuzk, TuzkManager } from '@/index.ts';
+import { assert, assertEquals, assertRejects, assertStrictEquals, assertThrows } from '@std/assert';
+
+Deno.test('reset a finished task', async () => {
+	let count = 0;
+	const tuzk = new Tuzk<number>(async (tuzk) => {
+		await tuzk.checkpoint(0.5, { count });
+		if (++count === 1) {
+			throw new Error('First run fails');
+		}
+		return count;
+	});
+
+	await assertRejects(() => tuzk.run(), Error, 'First run fails');
+	tuzk.reset();
+	assert(tuzk.stateIs('pending'));
+	assertStrictEquals(tuzk.getProgress(), 0);
+	assertStrictEquals(tuzk.error, undefined);
+	assertStrictEquals(tuzk.getSnapshot(), undefined);
+	assertStrictEquals(tuzk.getHistory().at(-1)?.type, 'reset');
+
+	assertStrictEquals(await tuzk.run(), 2);
+	// Run again without reset
+	assertStrictEquals(await tuzk.run(), 3);
+
+	assertStrictEquals(tuzk.getRunCount(), 3);
+	assertEquals(tuzk.getRuns().map((run) => [run.run, run.state, run.result]), [
+		[1, 'failed', undefined],
+		[2, 'success', 2],
+		[3, 'success', 3],
+	]);
+	assertStrictEquals((tuzk.getRuns()[0].error as Error).message, 'First run fails');
+	assert(tuzk.getRuns().every((run) => run.finishedAt >= run.startedAt));
+});
+
+Deno.test('cannot reset an active task', async () => {
+	const tuzk = new Tuzk<void>((tuzk) => tuzk.checkpoint());
+	const promise = tuzk.run();
+	assertThrows(() => tuzk.reset(), errors.InvalidStateError);
+	await promise;
+});
+
+Deno.test('run records are bounded', async () => {
+	const tuzk: Tuzk<number> = new Tuzk(() => tuzk.getRunCount(), { runHistoryLimit: 2 });
+	for (let i = 0; i < 5; i++) {
+		await tuzk.run();
+	}
+	assertEquals(tuzk.getRuns().map((run) => run.result), [4, 5]);
+});
+
+Deno.test('re-submit a finished task to manager', async () => {
+	const mgr = new TuzkManager(1);
+	const finished: Tuzk<unknown, string>[] = [];
+	mgr.onTaskFinished.addListener((e) => finished.push(e.data));
+
+	const tuzk: Tuzk<number> = new Tuzk(() => tuzk.getRunCount());
+	mgr.submit(tuzk);
+	await mgr.waitForAll();
+	assertStrictEquals(tuzk.getResult(), 1);
+
+	mgr.submit(tuzk);
+	assert(!tuzk.stateIs('success'));
+	assertStrictEquals(await tuzk, 2);
+	await mgr.waitForAll();
+
+	assertEquals(finished, [tuzk, tuzk]);
+});
+
+Deno.test('cancelling a finished task does nothing', async () => {
+	const task = new Tuzk(async (tuzk) => await tuzk.checkpoint());
+	const promise = task.run();
+	task.cancel();
+	await assertRejects(() => promise, errors.CancelledError);
+
+	task.cancel();
+	task.cancel();
+	assert(task.stateIs('cancelled'));
+	assert(!task.isMarkedAsCancelled());
+
+	// Runs again normally
+	await task.run();
+	assert(task.stateIs('success'));
+	task.cancel();
+	assert(task.stateIs('success'));
+
+	const mgr = new TuzkManager();
+	task.cancel();
+	mgr.submit(task);
+	await mgr.waitForAll();
+	assert(task.stateIs('success'));
+});
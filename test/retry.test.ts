@@ -0,0 +1,68 @@
+import { assert, assertEquals, assertRejects, assertStrictEquals } from '@std/assert';
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk, TuzkManager } from '@/index.ts';
+
+Deno.test('retry until success', async () => {
+	const retries: number[] = [];
+	const tuzk = new Tuzk<number>(async (tuzk) => {
+		await tuzk.checkpoint(0.5);
+		if (tuzk.getAttempt() < 3) {
+			throw new Error('Not yet');
+		}
+		return tuzk.getAttempt();
+	}, { retryPolicy: { maxAttempts: 5, delay: 10 } });
+	tuzk.onRetrying.addListener((e) => retries.push(e.data[0]));
+
+	assertStrictEquals(await tuzk.run(), 3);
+	assert(tuzk.stateIs('success'));
+	assertEquals(retries, [1, 2]);
+});
+
+Deno.test('retry gives up after max attempts', async () => {
+	const tuzk = new Tuzk<void>(() => {
+		throw new Error('Always fails');
+	}, { retryPolicy: { maxAttempts: 3 } });
+
+	await assertRejects(() => tuzk.run(), Error, 'Always fails');
+	assert(tuzk.stateIs('failed'));
+	assertStrictEquals(tuzk.getAttempt(), 3);
+});
+
+Deno.test('retry respects predicate', async () => {
+	class FatalError extends Error {}
+	const tuzk = new Tuzk<void>(() => {
+		throw new FatalError();
+	}, { retryPolicy: { maxAttempts: 3, retryIf: (error) => !(error instanceof FatalError) } });
+
+	await assertRejects(() => tuzk.run(), FatalError);
+	assertStrictEquals(tuzk.getAttempt(), 1);
+});
+
+Deno.test('cancel during backoff', async () => {
+	const tuzk = new Tuzk<void>(() => {
+		throw new Error('Fails');
+	}, { retryPolicy: { maxAttempts: 3, delay: 1000 } });
+
+	const promise = tuzk.run();
+	await wait(10);
+	assert(tuzk.stateIs('running'));
+	tuzk.cancel();
+
+	await assertRejects(() => promise, errors.CancelledError);
+	assert(tuzk.stateIs('cancelled'));
+	assertStrictEquals(tuzk.getAttempt(), 1);
+});
+
+Deno.test('manager default retry policy', async () => {
+	const mgr = new TuzkManager(2, { retryPolicy: { maxAttempts: 2 } });
+
+	const tuzk = mgr.submit((tuzk) => {
+		if (tuzk.getAttempt() === 1) {
+			throw new Error('First attempt fails');
+		}
+	});
+	await mgr.waitForAll();
+
+	assert(tuzk.stateIs('success'));
+	assertStrictEquals(tuzk.getAttempt(), 2);
+});
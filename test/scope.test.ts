@@ -0,0 +1,49 @@
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk, type TuzkProgressScope } from '@/index.ts';
+import { assertAlmostEquals, assertEquals, assertRejects, assertStrictEquals, assertThrows } from '@std/assert';
+
+async function work(scope: TuzkProgressScope, steps: number) {
+	for (let i = 1; i <= steps; i++) {
+		await scope.checkpoint(i / steps);
+	}
+}
+
+Deno.test('scoped progress', async () => {
+	const progress: number[] = [];
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		await work(tuzk.scope(0, 0.5), 2);
+		const rest = tuzk.scope(0.5, 1);
+		await work(rest.scope(0, 0.5), 1);
+		await work(rest.scope(0.5, 1), 2);
+	});
+	tuzk.onProgressUpdated.addListener((e) => progress.push(e.data));
+	await tuzk.run();
+
+	assertEquals(progress.slice(0, 3), [0.25, 0.5, 0.75]);
+	assertAlmostEquals(progress[3], 0.875);
+	assertStrictEquals(progress[4], 1);
+});
+
+Deno.test('scoped checkpoint honors cancel', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		const scope = tuzk.scope(0.2, 0.4).scope(0.5, 1);
+		for (let i = 1; i <= 10; i++) {
+			await wait(5);
+			await scope.checkpoint(i / 10);
+		}
+	});
+	const promise = tuzk.run();
+	await wait(12);
+	tuzk.cancel();
+	await assertRejects(() => promise, errors.CancelledError);
+	assertAlmostEquals(tuzk.getProgress(), 0.32, 0.03);
+});
+
+Deno.test('invalid scope', async () => {
+	const tuzk = new Tuzk<void>((tuzk) => {
+		assertThrows(() => tuzk.scope(0.5, 0.2), errors.TuzkError);
+		assertThrows(() => tuzk.scope(0, 2), errors.TuzkError);
+		assertThrows(() => tuzk.scope(0, 0.5).setProgress(1.5), errors.TuzkError);
+	});
+	await tuzk.run();
+});
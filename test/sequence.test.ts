@@ -0,0 +1,81 @@
+import { assert, assertAlmostEquals, assertEquals, assertRejects, assertStrictEquals } from '@std/assert';
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk } from '@/index.ts';
+
+Deno.test('sequence runs children one after another', async () => {
+	const log: string[] = [];
+	const tuzks = [1, 2, 3].map((i) =>
+		new Tuzk<number>(async (tuzk) => {
+			log.push(`start ${i}`);
+			await wait(10);
+			await tuzk.checkpoint(0.5);
+			log.push(`end ${i}`);
+			return i;
+		})
+	);
+	const sequence = Tuzk.sequence(tuzks);
+	assert(tuzks.every((tuzk) => tuzk.stateIs('pending')));
+
+	const progresses: number[] = [];
+	sequence.onProgressUpdated.addListener((e) => progresses.push(e.data));
+
+	assertEquals(await sequence.run(), [1, 2, 3]);
+	assertEquals(log, ['start 1', 'end 1', 'start 2', 'end 2', 'start 3', 'end 3']);
+	assert(progresses.every((p, i) => i === 0 || p >= progresses[i - 1]));
+});
+
+Deno.test('sequence pauses only the active child', async () => {
+	const first = new Tuzk<void>(async (tuzk) => {
+		await wait(30);
+		await tuzk.checkpoint(0.5);
+	});
+	const second = new Tuzk<void>(async (tuzk) => await tuzk.checkpoint(0.5));
+	const sequence = Tuzk.sequence([first, second]);
+
+	const promise = sequence.run();
+	await wait(10);
+	sequence.pause();
+	assert(first.isMarkedAsPaused());
+	assert(second.stateIs('pending'));
+
+	await wait(40);
+	assert(first.stateIs('paused'));
+	assertAlmostEquals(sequence.getProgress(), 0.25);
+
+	sequence.resume();
+	await promise;
+	assert(second.stateIs('success'));
+});
+
+Deno.test('sequence cancels the active child and skips the rest', async () => {
+	const first = new Tuzk<void>(async (tuzk) => {
+		await wait(30);
+		await tuzk.checkpoint(0.5);
+	});
+	const second = new Tuzk<void>(() => {});
+	const sequence = Tuzk.sequence([first, second]);
+
+	const promise = sequence.run();
+	await wait(10);
+	sequence.cancel();
+
+	await assertRejects(() => promise, errors.CancelledError);
+	assert(first.stateIs('cancelled'));
+	assert(second.stateIs('pending'));
+	assert(sequence.stateIs('cancelled'));
+});
+
+Deno.test('pipe passes results to next stage', async () => {
+	const pipe = Tuzk.pipe([
+		() => 'data',
+		async (text, tuzk) => {
+			await tuzk.checkpoint(0.5);
+			return text.length;
+		},
+		(length) => length * 2,
+	]);
+
+	const result: number = await pipe.run();
+	assertStrictEquals(result, 8);
+	assertStrictEquals(pipe.getSubtasks().length, 3);
+});
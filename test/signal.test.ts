@@ -0,0 +1,64 @@
+import { assert, assertInstanceOf, assertRejects } from '@std/assert';
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk } from '@/index.ts';
+
+function abortableWait(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const id = setTimeout(resolve, ms);
+		signal.addEventListener('abort', () => {
+			clearTimeout(id);
+			reject(signal.reason);
+		});
+	});
+}
+
+Deno.test('signal aborts when task is cancelled', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		await abortableWait(10000, tuzk.signal);
+	});
+
+	const promise = tuzk.run();
+	await wait(10);
+	assert(!tuzk.signal.aborted);
+	tuzk.cancel();
+
+	await assertRejects(() => promise, errors.CancelledError);
+	assert(tuzk.stateIs('cancelled'));
+	assertInstanceOf(tuzk.signal.reason, errors.CancelledError);
+});
+
+Deno.test('signal aborts when task times out', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		await abortableWait(10000, tuzk.signal);
+	}, { timeout: 20 });
+
+	await assertRejects(() => tuzk.run(), errors.TimeoutError);
+	assert(tuzk.stateIs('failed'));
+});
+
+Deno.test('external signal given to constructor cancels task', async () => {
+	const controller = new AbortController();
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		await wait(30);
+		await tuzk.checkpoint(0.5);
+	}, { signal: controller.signal });
+
+	const promise = tuzk.run();
+	controller.abort();
+
+	await assertRejects(() => promise, errors.CancelledError);
+	assert(tuzk.stateIs('cancelled'));
+});
+
+Deno.test('external signal given to run cancels task', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		await tuzk.checkpoint(0.5);
+	});
+
+	await assertRejects(() => tuzk.run(AbortSignal.abort()), errors.CancelledError);
+	assert(tuzk.stateIs('cancelled'));
+
+	// External signal only affects the run it is given to
+	await tuzk.run();
+	assert(tuzk.stateIs('success'));
+});
@@ -0,0 +1,43 @@
+import { MemoryTuzkStorage, type TuzkRecord } from '@/index.ts';
+import { JsonFileTuzkStorage } from '@/storage/json_file.ts';
+import { assertEquals } from '@std/assert';
+
+const record: TuzkRecord = {
+	id: 'a',
+	type: 'import',
+	params: { file: 'data.csv' },
+	snapshot: { offset: 10 },
+	progress: 0.5,
+	priority: 0,
+	dependencies: [],
+};
+
+Deno.test('memory storage', async () => {
+	const storage = new MemoryTuzkStorage();
+	await storage.save(record);
+	await storage.save({ ...record, id: 'b' });
+	await storage.delete('b');
+
+	const records = await storage.load();
+	assertEquals(records, [record]);
+});
+
+Deno.test('json file storage', async () => {
+	// The only directory tests are allowed to write to
+	await Deno.mkdir('test/.tmp', { recursive: true });
+	const dir = await Deno.makeTempDir({ dir: 'test/.tmp' });
+	try {
+		const path = `${dir}/tasks.json`;
+		assertEquals(await new JsonFileTuzkStorage(path).load(), []);
+
+		const storage = new JsonFileTuzkStorage(path);
+		await storage.save(record);
+		await storage.save({ ...record, id: 'b' });
+		await storage.save({ ...record, snapshot: { offset: 20 } });
+		await storage.delete('b');
+
+		assertEquals(await new JsonFileTuzkStorage(path).load(), [{ ...record, snapshot: { offset: 20 } }]);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
@@ -0,0 +1,120 @@
+import { Tuzk, TuzkManager } from '@/index.ts';
+import { assertStateSequence, getStateSequence, TuzkStepper, VirtualClock } from '@/testing.ts';
+import { CancelledError, TimeoutError } from '@/errors.ts';
+import { assertEquals, assertRejects, assertStrictEquals, assertThrows } from '@std/assert';
+
+Deno.test('virtual clock fires timers in order', async () => {
+	const clock = new VirtualClock(1000);
+	const fired: string[] = [];
+	clock.setTimeout(() => fired.push('b'), 20);
+	clock.setTimeout(() => fired.push('a'), 10);
+	const cleared = clock.setTimeout(() => fired.push('c'), 10);
+	clock.clearTimeout(cleared);
+
+	await clock.advance(15);
+	assertEquals(fired, ['a']);
+	assertStrictEquals(clock.now(), 1015);
+
+	await clock.runAll();
+	assertEquals(fired, ['a', 'b']);
+	assertStrictEquals(clock.now(), 1020);
+	assertStrictEquals(clock.getTimerCount(), 0);
+});
+
+Deno.test('tasks use the virtual clock of their manager', async () => {
+	const clock = new VirtualClock();
+	const mgr = new TuzkManager(8, { clock });
+	const task = mgr.submit(async (task) => {
+		await task.sleep(60_000);
+		await task.checkpoint(0.5);
+		await task.sleep(60_000);
+	});
+
+	await clock.advance(60_000);
+	assertStrictEquals(task.getProgress(), 0.5);
+	await clock.runAll();
+	await mgr.waitForAll();
+	assertStrictEquals(task.getElapsedTime(), 120_000);
+	assertStrictEquals(task.getHistory().at(-1)!.timestamp, 120_000);
+});
+
+Deno.test('timeout with virtual clock', async () => {
+	const clock = new VirtualClock();
+	const task = new Tuzk(async (task) => await task.sleep(1000), { clock, timeout: 100 });
+	const rejected = assertRejects(() => task.run(), TimeoutError);
+
+	await clock.advance(100);
+	await rejected;
+	assertStrictEquals(clock.now(), 100);
+});
+
+Deno.test('step through checkpoints', async () => {
+	const task = new Tuzk<void>(async (task) => {
+		await task.checkpoint(0.25);
+		await task.checkpoint(0.5);
+		task.setProgress(0.75);
+	});
+	const stepper = new TuzkStepper(task);
+	task.run();
+
+	assertStrictEquals(stepper.isHeld(), true);
+	assertStrictEquals(task.getProgress(), 0);
+	await stepper.step();
+	assertStrictEquals(task.getProgress(), 0.25);
+
+	task.pause('Inspect');
+	await stepper.step();
+	assertStrictEquals(task.getState(), 'paused');
+	assertStrictEquals(task.getProgress(), 0.5);
+	task.resume();
+
+	await stepper.finish();
+	assertStrictEquals(task.getProgress(), 1);
+	assertStrictEquals(stepper.getCheckpointCount(), 2);
+	assertStateSequence(task, ['pending', 'running', 'paused', 'running', 'success']);
+});
+
+Deno.test('cancel held task', async () => {
+	const task = new Tuzk<void>(async (task) => await task.checkpoint(0.5));
+	const stepper = new TuzkStepper(task);
+	task.run().catch(() => {});
+
+	await stepper.step();
+	assertStrictEquals(task.getProgress(), 0.5);
+	task.cancel();
+	await stepper.step();
+	assertStrictEquals(stepper.isHeld(), false);
+	assertEquals(getStateSequence(task), ['pending', 'running', 'cancelled']);
+});
+
+Deno.test('assert state sequence', async () => {
+	const task = new Tuzk(() => {});
+	await task.run();
+	await task.run();
+
+	assertStateSequence(task, ['pending', 'running', 'success', 'pending', 'running', 'success']);
+	assertThrows(() => assertStateSequence(task, ['pending', 'running', 'success']));
+});
+
+Deno.test('state sequence of truncated history', async () => {
+	const task = new Tuzk(() => {
+		throw new Error('Oops');
+	}, { historyLimit: 2 });
+	await assertRejects(() => task.run());
+
+	assertEquals(getStateSequence(task), ['running', 'failed']);
+});
+
+Deno.test('cancel concurrent sleeps', async () => {
+	const clock = new VirtualClock();
+	const task = new Tuzk(async (task) => {
+		await Promise.all([task.sleep(1000), task.sleep(500)]);
+	}, { clock });
+	const rejected = assertRejects(() => task.run(), CancelledError);
+
+	await clock.advance(600);
+	task.cancel();
+	await rejected;
+	assertStrictEquals(task.getState(), 'cancelled');
+	assertStrictEquals(clock.getTimerCount(), 0);
+});
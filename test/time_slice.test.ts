@@ -0,0 +1,65 @@
+import { Tuzk, TuzkManager, type TuzkRunner } from '@/index.ts';
+import { assertEquals, assertStrictEquals } from '@std/assert';
+
+function busy(ms: number): void {
+	const end = performance.now() + ms;
+	while (performance.now() < end) {
+		// Keep the CPU busy
+	}
+}
+
+/**
+ * Runs the task, and gets its progress when a timer set before it fires
+ */
+async function progressWhenTimerFires(task: Tuzk<void>): Promise<number> {
+	let progress = NaN;
+	setTimeout(() => progress = task.getProgress(), 0);
+	await task.run();
+	return progress;
+}
+
+function cpuBound(steps: number, ms: number): TuzkRunner<Tuzk<void>> {
+	return async (task) => {
+		for (let i = 1; i <= steps; i++) {
+			busy(ms);
+			await task.checkpoint(i / steps);
+		}
+	};
+}
+
+Deno.test('checkpoints do not yield without time slice', async () => {
+	const task = new Tuzk<void>(cpuBound(10, 2));
+	assertStrictEquals(await progressWhenTimerFires(task), NaN);
+	assertStrictEquals(task.getProgress(), 1);
+});
+
+Deno.test('checkpoints yield when time slice is used up', async () => {
+	const task = new Tuzk<void>(cpuBound(10, 2), { timeSlice: 5 });
+	const progress = await progressWhenTimerFires(task);
+	assertStrictEquals(progress > 0 && progress < 1, true);
+});
+
+Deno.test('cancel task while yielding', async () => {
+	const task = new Tuzk<void>(cpuBound(10, 1), { timeSlice: 0 });
+	setTimeout(() => task.cancel(), 0);
+	await task.run().catch(() => {});
+	assertStrictEquals(task.getState(), 'cancelled');
+});
+
+Deno.test('fair time slicing takes turns', async () => {
+	const mgr = new TuzkManager(8, { timeSlice: 0, fairTimeSlicing: true });
+	const order: string[] = [];
+	for (const name of ['a', 'b', 'c']) {
+		mgr.submit(async (task) => {
+			for (let i = 0; i < 3; i++) {
+				order.push(name);
+				busy(1);
+				await task.checkpoint();
+			}
+		});
+	}
+
+	await mgr.waitForAll();
+	assertEquals(order, ['a', 'b', 'c', 'a', 'b', 'c', 'a', 'b', 'c']);
+	assertStrictEquals(mgr.sliceScheduler!.getWaitingCount(), 0);
+});
@@ -0,0 +1,68 @@
+import { assert, assertInstanceOf, assertRejects } from '@std/assert';
+import { wait } from '@leawind/inventory/test_utils';
+import { errors, Tuzk, TuzkManager } from '@/index.ts';
+
+Deno.test('task fails with TimeoutError at next checkpoint', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		for (let i = 0; i < 10; i++) {
+			await wait(20);
+			await tuzk.checkpoint(i / 10);
+		}
+	}, { timeout: 50 });
+
+	await assertRejects(() => tuzk.run(), errors.TimeoutError);
+	assert(tuzk.stateIs('failed'));
+	assertInstanceOf(tuzk.error, errors.TimeoutError);
+});
+
+Deno.test('task fails when passing deadline', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		await wait(50);
+		await tuzk.checkpoint(0.5);
+	}, { deadline: Date.now() + 20 });
+
+	await assertRejects(() => tuzk.run(), errors.TimeoutError);
+});
+
+Deno.test('task times out while paused', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		tuzk.pause();
+		await tuzk.checkpoint(0.5);
+	}, { timeout: 30 });
+
+	await assertRejects(() => tuzk.run(), errors.TimeoutError);
+	assert(tuzk.stateIs('failed'));
+});
+
+Deno.test('paused time can be excluded from timeout', async () => {
+	const tuzk = new Tuzk<void>(async (tuzk) => {
+		tuzk.pause();
+		await tuzk.checkpoint(0.5);
+		await wait(20);
+		await tuzk.checkpoint(0.8);
+	}, { timeout: 50, excludePausedTime: true });
+
+	const promise = tuzk.run();
+	await wait(80);
+	assert(tuzk.stateIs('paused'));
+	tuzk.resume();
+
+	await promise;
+	assert(tuzk.stateIs('success'));
+});
+
+Deno.test('manager default timeout', async () => {
+	const mgr = new TuzkManager(1, { timeout: 30 });
+
+	const stuck = mgr.submit(async (tuzk) => {
+		for (;;) {
+			await wait(10);
+			await tuzk.checkpoint();
+		}
+	});
+	const next = mgr.submit(() => 1);
+
+	await mgr.waitForAll();
+	assert(stuck.stateIs('failed'));
+	assert(next.stateIs('success'));
+});
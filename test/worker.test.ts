@@ -0,0 +1,107 @@
+import { errors, TuzkManager, WorkerTuzk } from '@/index.ts';
+import { assertStateSequence } from '@/testing.ts';
+import { assert, assertEquals, assertInstanceOf, assertRejects, assertStrictEquals } from '@std/assert';
+import type { WorkerInput } from './fixtures/worker_runner.ts';
+
+const url = new URL('./fixtures/worker_runner.ts', import.meta.url);
+
+Deno.test('run in worker', async () => {
+	const task = new WorkerTuzk<number, WorkerInput>(url, { steps: 4 });
+	const progresses: number[] = [];
+	task.onProgressUpdated.addListener((e) => progresses.push(e.data));
+
+	assertStrictEquals(await task.run(), 8);
+	assertEquals(progresses, [0.25, 0.5, 0.75, 1]);
+	assertStrictEquals(task.getSnapshot(), 4);
+});
+
+Deno.test('resume from snapshot in worker', async () => {
+	const task = new WorkerTuzk<number, WorkerInput>(url, { steps: 4 }, { snapshot: 2 });
+	const progresses: number[] = [];
+	task.onProgressUpdated.addListener((e) => progresses.push(e.data));
+
+	await task.run();
+	assertEquals(progresses, [0.75, 1]);
+});
+
+Deno.test('pause and resume worker task', async () => {
+	const task = new WorkerTuzk<number, WorkerInput>(url, { steps: 4, delay: 5 });
+	task.onProgressUpdated.addListener((e) => {
+		if (e.data === 0.5) {
+			task.pause();
+			setTimeout(() => task.resume(), 20);
+		}
+	});
+
+	assertStrictEquals(await task.run(), 8);
+	assertStateSequence(task, ['pending', 'running', 'paused', 'running', 'success']);
+});
+
+Deno.test('cancel worker task', async () => {
+	const task = new WorkerTuzk<number, WorkerInput>(url, { steps: 100, delay: 5 });
+	task.onProgressUpdated.addListener((e) => {
+		if (e.data === 0.02) {
+			task.cancel();
+		}
+	});
+
+	await assertRejects(() => task.run(), errors.CancelledError);
+	assertStrictEquals(task.getState(), 'cancelled');
+	assert(task.getProgress() < 1);
+});
+
+Deno.test('cancel worker task that never reaches a checkpoint', async () => {
+	const task = new WorkerTuzk<number, WorkerInput>(url, { steps: 1, fail: 'hang' });
+	task.onProgressUpdated.addListener((e) => {
+		if (e.data === 1) {
+			task.cancel();
+		}
+	});
+
+	await assertRejects(() => task.run(), errors.CancelledError);
+	assertStrictEquals(task.getState(), 'cancelled');
+});
+
+Deno.test('timeout of worker task that never reaches a checkpoint', async () => {
+	const task = new WorkerTuzk<number, WorkerInput>(url, { steps: 1, fail: 'hang' }, { timeout: 50 });
+	await assertRejects(() => task.run(), errors.TimeoutError);
+	assertStrictEquals(task.getState(), 'failed');
+});
+
+Deno.test('worker is not started when the task is already aborted', async () => {
+	class AbortedWorkerTuzk extends WorkerTuzk<number, WorkerInput> {
+		public override get signal(): AbortSignal {
+			return AbortSignal.abort(new errors.CancelledError('Aborted before the runner'));
+		}
+	}
+	const task = new AbortedWorkerTuzk(url, { steps: 1 });
+	await assertRejects(() => task.run(), errors.CancelledError, 'Aborted before the runner');
+});
+
+Deno.test('cancel from worker', async () => {
+	const task = new WorkerTuzk<number, WorkerInput>(url, { steps: 1, fail: 'cancel' });
+	await assertRejects(() => task.run(), errors.CancelledError);
+	assertStrictEquals(task.getState(), 'cancelled');
+});
+
+Deno.test('errors keep their type across worker', async () => {
+	const typeError = new WorkerTuzk<number, WorkerInput>(url, { steps: 1, fail: 'type' });
+	await assertRejects(() => typeError.run(), TypeError, 'Bad input');
+
+	const timeout = new WorkerTuzk<number, WorkerInput>(url, { steps: 1, fail: 'timeout' });
+	await assertRejects(() => timeout.run(), errors.TimeoutError, 'Too slow');
+	assertStrictEquals(timeout.getState(), 'failed');
+
+	const value = new WorkerTuzk<number, WorkerInput>(url, { steps: 1, fail: 'value' });
+	await value.run().catch(() => {});
+	assertStrictEquals(value.error, 42);
+});
+
+Deno.test('submit worker tasks to manager', async () => {
+	const mgr = new TuzkManager(2);
+	const tasks = [1, 2, 3].map((steps) => mgr.submit(new WorkerTuzk<number, WorkerInput>(url, { steps })));
+
+	await mgr.waitForAll();
+	assertEquals(tasks.map((task) => task.getResult()), [2, 4, 6]);
+	assertInstanceOf(tasks[0], WorkerTuzk);
+});